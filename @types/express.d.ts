@@ -0,0 +1,22 @@
+import type {
+	ApiKeySchemaType,
+	OrganizationMemberSchemaType,
+	OrganizationSchemaType
+} from "@/databases/drizzle/types";
+
+declare global {
+	namespace Express {
+		interface Request {
+			// Set for every request by the request id middleware
+			id: string;
+			// Set when the request is authenticated with an API key
+			apiKey?: Pick<ApiKeySchemaType, "id" | "name" | "scopes">;
+			// Set when the request is authenticated by its `Authorization` header rather than the session
+			authScheme?: "Bearer" | "ApiKey";
+			// Set by the organization middleware when the request targets an organization
+			organization?: Pick<OrganizationSchemaType, "id" | "name" | "slug">;
+			// The membership of the user in that organization, if any
+			membership?: Pick<OrganizationMemberSchemaType, "id" | "role">;
+		}
+	}
+}
@@ -1,6 +1,7 @@
 import "express-session";
 
 import type { UserSchemaType } from "@/databases/drizzle/types";
+import type { RequestClient } from "@/utils/appHelpers";
 
 declare global {
 	namespace Express {
@@ -9,9 +10,22 @@ declare global {
 }
 
 declare module "express-session" {
-	interface Session {
+	interface SessionData {
 		passport?: {
 			user?: number;
 		};
+		// Client that owns the session, kept in sync by `appSession`
+		client?: RequestClient;
+		// Set after the first login step for users with two-factor authentication
+		twoFactor?: {
+			userId: number;
+			expiresAt: number;
+			attempts: number;
+		};
+		// Set while an administrator impersonates the user of the session
+		impersonator?: {
+			userId: number;
+			startedAt: number;
+		};
 	}
 }
@@ -4,14 +4,22 @@ import dotenv from "dotenv";
 import express, { urlencoded } from "express";
 import helmet from "helmet";
 
+import {
+	apiKeyAuthentication,
+	bearerAuthentication,
+	impersonationHeader
+} from "@/app/auth/auth.middleware";
+
 import indexRouter from "@/routes/index.route";
 import appRouter from "@/routes/routes.config";
 import { corsOptions } from "@/settings/cors";
 import { initializeErrorHandlers } from "@/settings/errorHandler";
 import appLogger from "@/settings/logger";
 import appRateLimiter from "@/settings/rateLimiter";
-import { doubleCsrfProtection } from "@/utils/csrf";
+import appSession from "@/settings/session";
+import { csrfProtection } from "@/utils/csrf";
 import domainStore from "@/utils/domainStore";
+import requestId from "@/utils/requestId";
 
 dotenv.config();
 
@@ -21,9 +29,10 @@ app.use(helmet());
 app.use(express.json());
 app.use(urlencoded({ extended: true }));
 app.use(express.urlencoded({ extended: true }));
-app.use(cookieParser());
+app.use(cookieParser(process.env.SECRET));
 app.use(cors(corsOptions));
 app.set("trust proxy", 1);
+app.use(requestId);
 
 /**
  * Initialize logger
@@ -46,8 +55,26 @@ appRateLimiter(app);
  */
 app.use(domainStore);
 
+/**
+ * Initialize sessions and passport
+ * Sessions are persisted in Postgres
+ * This is used for authentication
+ */
+appSession(app);
+
+// Flag responses of sessions where an administrator impersonates a user
+app.use(impersonationHeader);
+
+/**
+ * Authenticate bearer access tokens and API keys
+ * These are used by non-browser clients instead of sessions
+ */
+app.use(bearerAuthentication);
+app.use(apiKeyAuthentication);
+
 // Generate CSRF token for all routes
-app.use(doubleCsrfProtection);
+// Requests authenticated by a header credential are exempt
+app.use(csrfProtection);
 
 /**
  * Default route
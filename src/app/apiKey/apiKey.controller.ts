@@ -0,0 +1,105 @@
+import type { Request, Response } from "express";
+
+import ApiKeyService from "@/app/apiKey/apiKey.service";
+import { apiKeyCreateSchema, apiKeyQuerySchema } from "@/app/apiKey/apiKey.validators";
+import AuditService, { auditContext } from "@/app/audit/audit.service";
+
+import { ApiController } from "@/core/controller";
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
+import { apiKeys } from "@/models/drizzle/apiKey.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class ApiKeyController extends ApiController {
+	private readonly sortingHelper: SortingHelper<typeof apiKeys>;
+	protected readonly apiKeyService: ApiKeyService;
+	protected readonly auditService: AuditService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sortingHelper = new SortingHelper(apiKeys);
+		this.apiKeyService = new ApiKeyService();
+		this.auditService = new AuditService();
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = apiKeyQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.apiKeyService.retrieve(this.request.user!.id, check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async create(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = apiKeyCreateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.apiKeyService.create(this.request.user!, check.data);
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.API_KEY_CREATED,
+			targetType: "api_key",
+			targetId: data.data.id,
+			metadata: { name: data.data.name, prefix: data.data.prefix, scopes: data.data.scopes }
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async show(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("API key ID must be a number");
+
+		const data = await this.apiKeyService.retrieveOne(this.request.user!.id, Number(id));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async rotate(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("API key ID must be a number");
+
+		const data = await this.apiKeyService.rotate(this.request.user!.id, Number(id));
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.API_KEY_ROTATED,
+			targetType: "api_key",
+			targetId: data.data.id,
+			metadata: { prefix: data.data.prefix }
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async delete(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("API key ID must be a number");
+
+		const data = await this.apiKeyService.revoke(this.request.user!.id, Number(id));
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.API_KEY_REVOKED,
+			targetType: "api_key",
+			targetId: data.data.id
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
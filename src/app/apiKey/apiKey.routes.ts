@@ -0,0 +1,62 @@
+import express, { Router } from "express";
+
+import ApiKeyController from "@/app/apiKey/apiKey.controller";
+import {
+	blockImpersonation,
+	isAuthenticated,
+	isVerified,
+	requirePermission,
+	requireSession
+} from "@/app/auth/auth.middleware";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const apiKeyRouter: Router = (() => {
+	const router = express.Router();
+
+	// Keys are managed from a session, so that a key can never mint or rotate another
+	router.use(isAuthenticated, requireSession, requirePermission(PERMISSION_LIST.API_KEY_MANAGE));
+
+	router
+		.route("")
+		.get(
+			asyncErrorHandler(async (req, res) => {
+				await new ApiKeyController(req, res).index();
+			})
+		)
+		// Keys outlive the session, so they are never created on behalf of an impersonated user
+		// nor for an unverified email address
+		.post(
+			blockImpersonation,
+			isVerified,
+			asyncErrorHandler(async (req, res) => {
+				await new ApiKeyController(req, res).create();
+			})
+		);
+
+	// Replace the secret of a key, the previous key stops working immediately
+	router.route("/:id/rotate").post(
+		blockImpersonation,
+		isVerified,
+		asyncErrorHandler(async (req, res) => {
+			await new ApiKeyController(req, res).rotate();
+		})
+	);
+
+	router
+		.route("/:id")
+		.get(
+			asyncErrorHandler(async (req, res) => {
+				await new ApiKeyController(req, res).show();
+			})
+		)
+		.delete(
+			blockImpersonation,
+			asyncErrorHandler(async (req, res) => {
+				await new ApiKeyController(req, res).delete();
+			})
+		);
+
+	return router;
+})();
@@ -0,0 +1,257 @@
+import crypto from "crypto";
+import { and, count, eq, gte, ilike, isNull, lte, or } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import type { ApiKeyCreateSchemaType, ApiKeyQuerySchemaType } from "@/app/apiKey/apiKey.validators";
+import RolePermissionService from "@/app/rolePermission/rolePermission.service";
+
+import PaginationManager from "@/core/pagination";
+import DrizzleService from "@/databases/drizzle/service";
+import type { ApiKeySchemaType } from "@/databases/drizzle/types";
+import { apiKeys } from "@/models/drizzle/apiKey.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export type PublicApiKey = Omit<ApiKeySchemaType, "keyHash">;
+
+// The plain text key is only ever returned once, right after it is generated
+export type GeneratedApiKey = PublicApiKey & { key: string };
+
+const publicColumns = { keyHash: false } as const;
+
+export default class ApiKeyService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof apiKeys>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(apiKeys);
+	}
+
+	/**
+	 * Keys are only ever managed by the user they act as
+	 *
+	 * @param userId
+	 * @param filter
+	 */
+	async retrieve(
+		userId: number,
+		filter: ApiKeyQuerySchemaType
+	): Promise<ServiceApiResponse<PublicApiKey[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			// Create date objects from string inputs if they exist
+			const fromDate = filter.from ? new Date(filter.from) : undefined;
+			const toDate = filter.to ? new Date(filter.to) : undefined;
+
+			// If toDate exists, set it to the end of the day
+			if (toDate) {
+				toDate.setHours(23, 59, 59, 999);
+			}
+
+			const conditions = [
+				eq(apiKeys.userId, userId),
+				filter.search
+					? or(
+							ilike(apiKeys.name, `%${filter.search}%`),
+							ilike(apiKeys.prefix, `%${filter.search}%`)
+						)
+					: undefined,
+				fromDate ? gte(apiKeys.createdAt, fromDate) : undefined,
+				toDate ? lte(apiKeys.createdAt, toDate) : undefined
+			].filter(Boolean);
+
+			const whereClause = and(...conditions);
+
+			if (!filter.page || !filter.limit) {
+				const data = await this.getDb().query.apiKeys.findMany({
+					where: whereClause,
+					columns: publicColumns,
+					orderBy
+				});
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"API keys retrieved successfully",
+					data
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(apiKeys)
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await this.getDb().query.apiKeys.findMany({
+				where: whereClause,
+				columns: publicColumns,
+				limit: filter.limit,
+				offset,
+				orderBy
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"API keys retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveOne(userId: number, id: number): Promise<ServiceApiResponse<PublicApiKey>> {
+		try {
+			const data = await this.getDb().query.apiKeys.findFirst({
+				where: and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)),
+				columns: publicColumns
+			});
+
+			if (!data) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "API key not found");
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "API key retrieved successfully", data);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async create(
+		user: Express.User,
+		data: ApiKeyCreateSchemaType
+	): Promise<ServiceApiResponse<GeneratedApiKey>> {
+		try {
+			const scopes = [...new Set(data.scopes)];
+
+			// A key can never grant more than its creator is allowed to do
+			const rolePermissionService = new RolePermissionService();
+			for (const scope of scopes) {
+				if (!(await rolePermissionService.hasPermission(user.role, scope))) {
+					return ServiceResponse.createRejectResponse(
+						StatusCodes.FORBIDDEN,
+						`You cannot grant the ${scope} scope`
+					);
+				}
+			}
+
+			const { key, prefix, keyHash } = this.generateKey();
+
+			const { keyHash: _, ...apiKey } = await this.getDb()
+				.insert(apiKeys)
+				.values({
+					userId: user.id,
+					name: data.name,
+					prefix,
+					keyHash,
+					scopes,
+					expiresAt: data.expiresAt
+				})
+				.returning()
+				.then(rows => rows[0]);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.CREATED,
+				"API key created successfully. Store it now, it will not be shown again",
+				{ ...apiKey, key }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async rotate(userId: number, id: number): Promise<ServiceApiResponse<GeneratedApiKey>> {
+		try {
+			const { key, prefix, keyHash } = this.generateKey();
+
+			// Replacing the hash invalidates the previous key immediately
+			const rotatedKey = await this.getDb()
+				.update(apiKeys)
+				.set({ prefix, keyHash, lastUsedAt: null })
+				.where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+				.returning()
+				.then(rows => rows[0]);
+
+			if (!rotatedKey) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.NOT_FOUND,
+					"API key not found or already revoked"
+				);
+			}
+
+			const { keyHash: _, ...apiKey } = rotatedKey;
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"API key rotated successfully. Store it now, it will not be shown again",
+				{ ...apiKey, key }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async revoke(userId: number, id: number): Promise<ServiceApiResponse<PublicApiKey>> {
+		try {
+			const revokedKey = await this.getDb()
+				.update(apiKeys)
+				.set({ revokedAt: new Date() })
+				.where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+				.returning()
+				.then(rows => rows[0]);
+
+			if (!revokedKey) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.NOT_FOUND,
+					"API key not found or already revoked"
+				);
+			}
+
+			const { keyHash: _, ...apiKey } = revokedKey;
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "API key revoked successfully", apiKey);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Find the active key matching a plain text key and record its usage
+	 *
+	 * @param key
+	 */
+	async authenticate(key: string): Promise<ApiKeySchemaType | undefined> {
+		const apiKey = await this.getDb().query.apiKeys.findFirst({
+			where: eq(apiKeys.keyHash, AppHelpers.hashToken(key))
+		});
+
+		if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+			return undefined;
+		}
+
+		await this.getDb()
+			.update(apiKeys)
+			.set({ lastUsedAt: new Date() })
+			.where(eq(apiKeys.id, apiKey.id));
+
+		return apiKey;
+	}
+
+	private generateKey(): { key: string; prefix: string; keyHash: string } {
+		const prefix = `ak_${crypto.randomBytes(6).toString("hex")}`;
+		const key = `${prefix}_${crypto.randomBytes(32).toString("hex")}`;
+
+		return { key, prefix, keyHash: AppHelpers.hashToken(key) };
+	}
+}
@@ -0,0 +1,38 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import {
+	validateArray,
+	validateDate,
+	validateEnum,
+	validateString
+} from "@/validators/commonRules";
+
+export const apiKeyQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data)
+		}),
+		z.object({
+			...baseQuerySchemaShape
+		})
+	);
+};
+
+export const apiKeyCreateSchema = z.object({
+	name: validateString("Name", { min: 1, max: 255 }),
+	scopes: validateArray("Scopes", validateEnum("Scope", PERMISSION_LIST.enumValues), { min: 1 }),
+	expiresAt: validateDate("Expires At")
+		.refine(date => date > new Date(), { message: "Expires At must be in the future." })
+		.optional()
+});
+
+export type ApiKeyQuerySchemaType = z.infer<ReturnType<typeof apiKeyQuerySchema>>;
+export type ApiKeyCreateSchemaType = z.infer<typeof apiKeyCreateSchema>;
@@ -0,0 +1,53 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService from "@/app/audit/audit.service";
+import { auditQuerySchema } from "@/app/audit/audit.validators";
+
+import { ApiController } from "@/core/controller";
+import { auditEvents } from "@/models/drizzle/auditEvent.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class AuditController extends ApiController {
+	private readonly sortingHelper: SortingHelper<typeof auditEvents>;
+	protected readonly auditService: AuditService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sortingHelper = new SortingHelper(auditEvents);
+		this.auditService = new AuditService();
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = auditQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.auditService.retrieve(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async export(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = auditQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const { data } = await this.auditService.export(check.data);
+		const fileName = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+
+		return this.response.status(StatusCodes.OK).attachment(fileName).type("text/csv").send(data);
+	}
+}
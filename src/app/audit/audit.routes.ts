@@ -0,0 +1,30 @@
+import express, { Router } from "express";
+
+import AuditController from "@/app/audit/audit.controller";
+import { isAuthenticated, requirePermission } from "@/app/auth/auth.middleware";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const auditRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated, requirePermission(PERMISSION_LIST.AUDIT_READ));
+
+	router.get(
+		"",
+		asyncErrorHandler(async (req, res) => {
+			await new AuditController(req, res).index();
+		})
+	);
+
+	// Same filters as the list, without pagination
+	router.get(
+		"/export",
+		asyncErrorHandler(async (req, res) => {
+			await new AuditController(req, res).export();
+		})
+	);
+
+	return router;
+})();
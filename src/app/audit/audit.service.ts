@@ -0,0 +1,234 @@
+import { and, count, eq, gte, ilike, lte, or } from "drizzle-orm";
+import type { Request } from "express";
+import { StatusCodes } from "http-status-codes";
+import { json2csv } from "json-2-csv";
+
+import type { AuditQuerySchemaType } from "@/app/audit/audit.validators";
+
+import { auditExportLimit, auditRedactedFields } from "@/core/constants";
+import PaginationManager from "@/core/pagination";
+import DrizzleService from "@/databases/drizzle/service";
+import type { AuditActionType, AuditEventSchemaType } from "@/databases/drizzle/types";
+import { type AuditChanges, auditEvents } from "@/models/drizzle/auditEvent.model";
+import AppHelpers, { type RequestClient } from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+/**
+ * Who made the request an event is recorded for
+ */
+export interface AuditContext extends RequestClient {
+	actorId?: number;
+	apiKeyId?: number;
+	impersonatorId?: number;
+	requestId?: string;
+}
+
+export interface AuditEventInput {
+	action: AuditActionType;
+	// Overrides the actor of the context, e.g. for a login where the request is still anonymous
+	actorId?: number | null;
+	targetType?: string;
+	targetId?: string | number;
+	changes?: AuditChanges;
+	metadata?: Record<string, unknown>;
+}
+
+/**
+ * Build the audit context of a request
+ *
+ * @param req
+ */
+export function auditContext(req: Request): AuditContext {
+	return {
+		...AppHelpers.requestClient(req),
+		actorId: req.user?.id,
+		apiKeyId: req.apiKey?.id,
+		impersonatorId: req.session?.impersonator?.userId,
+		requestId: req.id
+	};
+}
+
+/**
+ * List the fields that differ between two versions of a record
+ * Sensitive fields are reported as changed without their values
+ *
+ * @param before
+ * @param after
+ */
+export function auditChanges(
+	before: Record<string, unknown>,
+	after: Record<string, unknown>
+): AuditChanges {
+	const changes: AuditChanges = {};
+
+	for (const field of Object.keys(after)) {
+		if (field === "createdAt" || field === "updatedAt") continue;
+		if (JSON.stringify(before[field]) === JSON.stringify(after[field])) continue;
+
+		changes[field] = auditRedactedFields.includes(field)
+			? { from: "[REDACTED]", to: "[REDACTED]" }
+			: { from: before[field] ?? null, to: after[field] ?? null };
+	}
+
+	return changes;
+}
+
+/**
+ * Audit events are not owned by an organization, the trail is global and only read by
+ * administrators, so its queries are deliberately not tenant scoped
+ */
+export default class AuditService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof auditEvents>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(auditEvents);
+	}
+
+	/**
+	 * Append an event to the audit log
+	 * Failures are logged and swallowed so they never break the audited action
+	 *
+	 * @param context
+	 * @param event
+	 */
+	async record(context: AuditContext, event: AuditEventInput): Promise<void> {
+		try {
+			await this.getDb()
+				.insert(auditEvents)
+				.values({
+					action: event.action,
+					actorId: event.actorId !== undefined ? event.actorId : (context.actorId ?? null),
+					apiKeyId: context.apiKeyId ?? null,
+					impersonatorId: context.impersonatorId ?? null,
+					targetType: event.targetType ?? null,
+					targetId: event.targetId !== undefined ? String(event.targetId) : null,
+					ipAddress: context.ip,
+					userAgent: context.userAgent,
+					requestId: context.requestId ?? null,
+					changes: event.changes ?? null,
+					metadata: event.metadata ?? null
+				});
+		} catch (error) {
+			console.error(`Failed to record audit event ${event.action}:`, error);
+		}
+	}
+
+	async retrieve(
+		filter: AuditQuerySchemaType
+	): Promise<ServiceApiResponse<AuditEventSchemaType[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+			const whereClause = this.filterConditions(filter);
+
+			if (!filter.page || !filter.limit) {
+				const data = await this.getDb().query.auditEvents.findMany({
+					where: whereClause,
+					orderBy
+				});
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"Audit events retrieved successfully",
+					data
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(auditEvents)
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await this.getDb().query.auditEvents.findMany({
+				where: whereClause,
+				limit: filter.limit,
+				offset,
+				orderBy
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Audit events retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Export the events matching the filter as CSV, ignoring pagination
+	 *
+	 * @param filter
+	 */
+	async export(filter: AuditQuerySchemaType): Promise<ServiceApiResponse<string>> {
+		try {
+			const rows = await this.getDb().query.auditEvents.findMany({
+				where: this.filterConditions(filter),
+				orderBy: this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy),
+				limit: auditExportLimit
+			});
+
+			const csv = json2csv(
+				rows.map(row => ({
+					...row,
+					changes: row.changes ? JSON.stringify(row.changes) : "",
+					metadata: row.metadata ? JSON.stringify(row.metadata) : "",
+					createdAt: row.createdAt.toISOString()
+				})),
+				// Identifiers and metadata are user input, which spreadsheets would run as formulas
+				{ emptyFieldValue: "", preventCsvInjection: true }
+			);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Audit events exported successfully",
+				csv
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	private filterConditions(filter: AuditQuerySchemaType) {
+		// Create date objects from string inputs if they exist
+		const fromDate = filter.from ? new Date(filter.from) : undefined;
+		const toDate = filter.to ? new Date(filter.to) : undefined;
+
+		// If toDate exists, set it to the end of the day
+		if (toDate) {
+			toDate.setHours(23, 59, 59, 999);
+		}
+
+		const conditions = [
+			filter.search
+				? or(
+						ilike(auditEvents.ipAddress, `%${filter.search}%`),
+						ilike(auditEvents.userAgent, `%${filter.search}%`),
+						ilike(auditEvents.targetId, `%${filter.search}%`)
+					)
+				: undefined,
+			filter.action ? eq(auditEvents.action, filter.action) : undefined,
+			filter.actorId ? eq(auditEvents.actorId, filter.actorId) : undefined,
+			filter.impersonatorId ? eq(auditEvents.impersonatorId, filter.impersonatorId) : undefined,
+			filter.targetType ? eq(auditEvents.targetType, filter.targetType) : undefined,
+			filter.targetId ? eq(auditEvents.targetId, filter.targetId) : undefined,
+			filter.requestId ? eq(auditEvents.requestId, filter.requestId) : undefined,
+			fromDate ? gte(auditEvents.createdAt, fromDate) : undefined,
+			toDate ? lte(auditEvents.createdAt, toDate) : undefined
+		].filter(Boolean);
+
+		return conditions.length > 0 ? and(...conditions) : undefined;
+	}
+}
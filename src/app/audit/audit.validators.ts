@@ -0,0 +1,36 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import { validateEnum, validatePositiveNumber, validateString } from "@/validators/commonRules";
+
+export const auditQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data),
+			action: data.action,
+			actorId: data.actorId,
+			impersonatorId: data.impersonatorId,
+			targetType: data.targetType,
+			targetId: data.targetId,
+			requestId: data.requestId
+		}),
+		z.object({
+			...baseQuerySchemaShape,
+			action: validateEnum("Action", AUDIT_ACTION_LIST.enumValues).optional(),
+			actorId: validatePositiveNumber("Actor ID").optional(),
+			impersonatorId: validatePositiveNumber("Impersonator ID").optional(),
+			targetType: validateString("Target Type", { max: 50 }).optional(),
+			targetId: validateString("Target ID", { max: 255 }).optional(),
+			requestId: validateString("Request ID", { max: 128 }).optional()
+		})
+	);
+};
+
+export type AuditQuerySchemaType = z.infer<ReturnType<typeof auditQuerySchema>>;
@@ -0,0 +1,387 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { auditContext } from "@/app/audit/audit.service";
+import AuthService from "@/app/auth/auth.service";
+import {
+	authForgotPasswordSchema,
+	authLoginSchema,
+	authOtpRequestSchema,
+	authOtpVerifySchema,
+	authRefreshTokenSchema,
+	authRegisterSchema,
+	authResetPasswordSchema,
+	authTokenIssueSchema,
+	authTwoFactorCodeSchema,
+	authTwoFactorVerifySchema
+} from "@/app/auth/auth.validators";
+import AuthTokenService from "@/app/auth/authToken.service";
+import TwoFactorService from "@/app/auth/twoFactor.service";
+
+import { otpMaxAttempts, twoFactorLoginTimeout } from "@/core/constants";
+import { ApiController } from "@/core/controller";
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
+import AppHelpers from "@/utils/appHelpers";
+import type { ServiceApiResponse } from "@/utils/serviceApi";
+
+export default class AuthController extends ApiController {
+	protected readonly authService: AuthService;
+	protected readonly authTokenService: AuthTokenService;
+	protected readonly twoFactorService: TwoFactorService;
+	protected readonly auditService: AuditService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.authService = new AuthService();
+		this.authTokenService = new AuthTokenService();
+		this.twoFactorService = new TwoFactorService();
+		this.auditService = new AuditService();
+	}
+
+	async register(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authRegisterSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authService.register(check.data);
+
+		await this.establishSession(data.data, "register");
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async login(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authLoginSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authService.verifyCredentials(check.data, auditContext(this.request));
+
+		return this.completeLogin(data, "password");
+	}
+
+	async requestOtp(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authOtpRequestSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authService.requestLoginOtp(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async verifyOtp(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authOtpVerifySchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authService.verifyLoginOtp(check.data, auditContext(this.request));
+
+		return this.completeLogin(data, "otp");
+	}
+
+	async forgotPassword(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authForgotPasswordSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authService.forgotPassword(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async resetPassword(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authResetPasswordSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authService.resetPassword(check.data, auditContext(this.request));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async resendVerificationEmail(): Promise<Response> {
+		const data = await this.authService.resendVerificationEmail(this.request.user!);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async verifyEmail(): Promise<Response> {
+		const { token } = this.request.params;
+
+		const data = await this.authService.verifyEmail(token);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async unlockAccount(): Promise<Response> {
+		const { token } = this.request.params;
+
+		const data = await this.authService.unlockAccount(token, auditContext(this.request));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async issueToken(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authTokenIssueSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const user = await this.authService.verifyCredentials(check.data, auditContext(this.request));
+
+		// There is no second request to complete, so the second factor is sent along
+		if (user.data.twoFactorEnabledAt) {
+			await this.authService.verifyTwoFactorLogin(
+				user.data.id,
+				check.data,
+				auditContext(this.request)
+			);
+		}
+
+		const data = await this.authTokenService.issue(user.data);
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.LOGIN,
+			actorId: user.data.id,
+			targetType: "user",
+			targetId: user.data.id,
+			metadata: { method: "token" }
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async refreshToken(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authRefreshTokenSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authTokenService.refresh(check.data.refreshToken);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async revokeToken(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authRefreshTokenSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.authTokenService.revoke(check.data.refreshToken);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async setupTwoFactor(): Promise<Response> {
+		const data = await this.twoFactorService.setup(this.request.user!);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async enableTwoFactor(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authTwoFactorCodeSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.twoFactorService.enable(this.request.user!, check.data.code);
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.TWO_FACTOR_ENABLED,
+			targetType: "user",
+			targetId: this.request.user!.id
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async disableTwoFactor(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authTwoFactorVerifySchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.twoFactorService.disable(this.request.user!, check.data);
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.TWO_FACTOR_DISABLED,
+			targetType: "user",
+			targetId: this.request.user!.id
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async regenerateRecoveryCodes(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = authTwoFactorVerifySchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.twoFactorService.regenerateRecoveryCodes(
+			this.request.user!,
+			check.data
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	/**
+	 * Second login step for users with two-factor authentication
+	 */
+	async verifyTwoFactor(): Promise<Response> {
+		const { body, session } = this.request;
+
+		const check = authTwoFactorVerifySchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const pending = session.twoFactor;
+		if (!pending || pending.expiresAt < Date.now() || pending.attempts >= otpMaxAttempts) {
+			delete session.twoFactor;
+
+			return this.apiResponse.unauthorizedResponse(
+				"Your login attempt has expired. Please log in again"
+			);
+		}
+
+		pending.attempts++;
+
+		const data = await this.authService.verifyTwoFactorLogin(
+			pending.userId,
+			check.data,
+			auditContext(this.request)
+		);
+
+		await this.establishSession(data.data, "two_factor");
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async logout(): Promise<Response> {
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.LOGOUT,
+			targetType: "user",
+			targetId: this.request.user?.id
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			this.request.logout(error => (error ? reject(error) : resolve()));
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			this.request.session.destroy(error => (error ? reject(error) : resolve()));
+		});
+
+		this.response.clearCookie(process.env.SESSION_COOKIE_NAME || "session");
+
+		return this.apiResponse.sendResponse({
+			status: StatusCodes.OK,
+			message: "Logged out successfully"
+		});
+	}
+
+	async me(): Promise<Response> {
+		return this.apiResponse.successResponse("User retrieved successfully", this.request.user);
+	}
+
+	/**
+	 * Log the user in, or hold the login until the second factor is verified
+	 *
+	 * @param data
+	 * @param method How the first factor was verified, recorded in the audit log
+	 */
+	protected async completeLogin(
+		data: ServiceApiResponse<Express.User>,
+		method: string
+	): Promise<Response> {
+		if (this.startTwoFactorLogin(data.data)) {
+			return this.apiResponse.successResponse(
+				"Enter the code from your authenticator app to finish logging in",
+				{ twoFactorRequired: true }
+			);
+		}
+
+		await this.establishSession(data.data, method);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	/**
+	 * Remember the user as half logged in when a second factor is required
+	 *
+	 * @param user
+	 * @returns Whether the second login step is required
+	 */
+	protected startTwoFactorLogin(user: Express.User): boolean {
+		if (!user.twoFactorEnabledAt) return false;
+
+		this.request.session.twoFactor = {
+			userId: user.id,
+			expiresAt: Date.now() + twoFactorLoginTimeout,
+			attempts: 0
+		};
+
+		return true;
+	}
+
+	/**
+	 * Log the user in through passport, which regenerates the session id
+	 *
+	 * @param user
+	 * @param method How the user authenticated, recorded in the audit log
+	 */
+	protected async establishSession(user: Express.User, method: string): Promise<void> {
+		await new Promise<void>((resolve, reject) => {
+			this.request.login(user, error => (error ? reject(error) : resolve()));
+		});
+
+		this.request.session.client = AppHelpers.requestClient(this.request);
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.LOGIN,
+			targetType: "user",
+			targetId: user.id,
+			metadata: { method }
+		});
+	}
+}
@@ -0,0 +1,212 @@
+import type { NextFunction, Request, Response } from "express";
+import pc from "picocolors";
+
+import ApiKeyService from "@/app/apiKey/apiKey.service";
+import AuditService, { auditContext } from "@/app/audit/audit.service";
+import AuthService from "@/app/auth/auth.service";
+import AuthTokenService from "@/app/auth/authToken.service";
+import RolePermissionService from "@/app/rolePermission/rolePermission.service";
+
+import { impersonatedByHeader } from "@/core/constants";
+import { AUDIT_ACTION_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import type { PermissionType, RoleType } from "@/databases/drizzle/types";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+import { ApiResponse } from "@/utils/serviceApi";
+
+const unauthenticatedMessage = "You must be logged in to access this resource";
+const forbiddenMessage = "You do not have permission to access this resource";
+const twoFactorRequiredMessage =
+	"Please enable two-factor authentication on your account to access this resource";
+
+function logAccessDenied(req: Request, requirement: string): void {
+	const user = req.user ? `user #${req.user.id} (${req.user.role})` : "anonymous";
+	const via = req.apiKey ? ` via API key #${req.apiKey.id}` : "";
+
+	console.warn(
+		pc.yellow(
+			`🚫 ACCESS DENIED: ${user}${via} → ${req.method} ${req.originalUrl} requires ${requirement}`
+		)
+	);
+}
+
+/**
+ * Admins can be required to enable two-factor authentication before using privileged routes
+ * API keys are exempt, they are already restricted to their scopes
+ */
+function isMissingTwoFactor(req: Request): boolean {
+	return (
+		process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS === "true" &&
+		!req.apiKey &&
+		req.user?.role === ROLE_LIST.ADMIN &&
+		!req.user.twoFactorEnabledAt
+	);
+}
+
+/**
+ * Authenticate requests carrying an `Authorization: Bearer <access token>` header
+ * The user is loaded into `req.user` the same way session authentication does
+ */
+export const bearerAuthentication = asyncErrorHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const [scheme, credentials] = req.headers.authorization?.split(" ") ?? [];
+		if (scheme !== "Bearer" || !credentials) return next();
+
+		const userId = new AuthTokenService().verifyAccessToken(credentials);
+
+		const user = await new AuthService().findSessionUser(userId);
+		if (!user) return new ApiResponse(res).unauthorizedResponse("Invalid authentication token");
+
+		req.user = user;
+		req.authScheme = "Bearer";
+		next();
+	}
+);
+
+/**
+ * Authenticate requests carrying an `Authorization: ApiKey <key>` header
+ * The request acts as the user who created the key, restricted to the scopes of the key
+ */
+export const apiKeyAuthentication = asyncErrorHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const [scheme, credentials] = req.headers.authorization?.split(" ") ?? [];
+		if (scheme !== "ApiKey" || !credentials) return next();
+
+		const apiKey = await new ApiKeyService().authenticate(credentials);
+		const user = apiKey ? await new AuthService().findSessionUser(apiKey.userId) : undefined;
+
+		if (!apiKey || !user) return new ApiResponse(res).unauthorizedResponse("Invalid API key");
+
+		req.user = user;
+		req.apiKey = { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+		req.authScheme = "ApiKey";
+
+		await new AuditService().record(auditContext(req), {
+			action: AUDIT_ACTION_LIST.API_KEY_USED,
+			targetType: "api_key",
+			targetId: apiKey.id,
+			metadata: { method: req.method, path: req.originalUrl }
+		});
+
+		next();
+	}
+);
+
+/**
+ * Flag every response of an impersonated session with the id of the administrator
+ */
+export const impersonationHeader = (req: Request, res: Response, next: NextFunction) => {
+	const impersonator = req.session?.impersonator;
+	if (impersonator) res.setHeader(impersonatedByHeader, String(impersonator.userId));
+
+	next();
+};
+
+/**
+ * Keep sensitive account actions, such as password or two-factor changes, to the account owner
+ */
+export const blockImpersonation = (req: Request, res: Response, next: NextFunction) => {
+	if (!req.session?.impersonator) return next();
+
+	logAccessDenied(req, "no impersonation");
+	return new ApiResponse(res).forbiddenResponse(
+		"This action is not allowed while impersonating a user"
+	);
+};
+
+/**
+ * Only allow requests that carry an authenticated user
+ */
+export const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+	if (req.isAuthenticated()) return next();
+
+	return new ApiResponse(res).unauthorizedResponse(unauthenticatedMessage);
+};
+
+/**
+ * Only allow requests authenticated with a session
+ * Account security actions, such as two-factor or session changes and impersonation, are never
+ * delegated to access tokens or API keys, which are also exempt from CSRF protection
+ * Use after `isAuthenticated`
+ */
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+	if (!req.authScheme) return next();
+
+	logAccessDenied(req, "a session");
+	return new ApiResponse(res).forbiddenResponse(
+		"This action requires a logged in session, it is not available to access tokens or API keys"
+	);
+};
+
+/**
+ * Only allow users that have verified their email address
+ * Use after `isAuthenticated`
+ */
+export const isVerified = (req: Request, res: Response, next: NextFunction) => {
+	if (!req.user) return new ApiResponse(res).unauthorizedResponse(unauthenticatedMessage);
+
+	if (req.user.emailVerifiedAt) return next();
+
+	return new ApiResponse(res).forbiddenResponse(
+		"Please verify your email address to access this resource"
+	);
+};
+
+/**
+ * Only allow users having one of the given roles
+ * Requests authenticated with an API key are rejected, as no scope grants a role
+ *
+ * @example router.delete("/:id", isAuthenticated, requireRole(ROLE_LIST.ADMIN), handler)
+ */
+export const requireRole =
+	(...roles: RoleType[]) =>
+	(req: Request, res: Response, next: NextFunction) => {
+		if (!req.user) return new ApiResponse(res).unauthorizedResponse(unauthenticatedMessage);
+
+		if (req.apiKey) {
+			logAccessDenied(req, `role ${roles.join(" or ")} without an API key`);
+			return new ApiResponse(res).forbiddenResponse(forbiddenMessage);
+		}
+
+		if (isMissingTwoFactor(req)) {
+			logAccessDenied(req, "two-factor authentication");
+			return new ApiResponse(res).forbiddenResponse(twoFactorRequiredMessage);
+		}
+
+		if (roles.includes(req.user.role)) return next();
+
+		logAccessDenied(req, `role ${roles.join(" or ")}`);
+		return new ApiResponse(res).forbiddenResponse(forbiddenMessage);
+	};
+
+/**
+ * Only allow users whose role grants every given permission
+ * Permissions are resolved from the `role_permissions` table
+ * Requests authenticated with an API key must also have each permission among the key scopes
+ *
+ * @example router.get("", isAuthenticated, requirePermission(PERMISSION_LIST.EMAIL_READ), handler)
+ */
+export const requirePermission = (...permissions: PermissionType[]) =>
+	asyncErrorHandler(async (req: Request, res: Response, next: NextFunction) => {
+		if (!req.user) return new ApiResponse(res).unauthorizedResponse(unauthenticatedMessage);
+
+		if (isMissingTwoFactor(req)) {
+			logAccessDenied(req, "two-factor authentication");
+			return new ApiResponse(res).forbiddenResponse(twoFactorRequiredMessage);
+		}
+
+		const rolePermissionService = new RolePermissionService();
+
+		for (const permission of permissions) {
+			if (req.apiKey && !req.apiKey.scopes.includes(permission)) {
+				logAccessDenied(req, `scope ${permission}`);
+				return new ApiResponse(res).forbiddenResponse(forbiddenMessage);
+			}
+
+			if (!(await rolePermissionService.hasPermission(req.user.role, permission))) {
+				logAccessDenied(req, `permission ${permission}`);
+				return new ApiResponse(res).forbiddenResponse(forbiddenMessage);
+			}
+		}
+
+		next();
+	});
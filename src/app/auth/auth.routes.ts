@@ -0,0 +1,177 @@
+import express, { Router } from "express";
+
+import AuthController from "@/app/auth/auth.controller";
+import {
+	blockImpersonation,
+	isAuthenticated,
+	isVerified,
+	requireSession
+} from "@/app/auth/auth.middleware";
+
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const authRouter: Router = (() => {
+	const router = express.Router();
+
+	// Create an account and log in
+	router.post(
+		"/register",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).register();
+		})
+	);
+
+	router.post(
+		"/login",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).login();
+		})
+	);
+
+	// Passwordless login with a one-time code sent by email
+	router.post(
+		"/otp/request",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).requestOtp();
+		})
+	);
+
+	router.post(
+		"/otp/verify",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).verifyOtp();
+		})
+	);
+
+	// Password recovery
+	router.post(
+		"/password/forgot",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).forgotPassword();
+		})
+	);
+
+	router.post(
+		"/password/reset",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).resetPassword();
+		})
+	);
+
+	// Email verification
+	router.post(
+		"/verify-email/resend",
+		isAuthenticated,
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).resendVerificationEmail();
+		})
+	);
+
+	router.get(
+		"/verify-email/:token",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).verifyEmail();
+		})
+	);
+
+	// Link sent by email when an account gets locked
+	router.get(
+		"/unlock/:token",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).unlockAccount();
+		})
+	);
+
+	// Two-factor authentication
+	router.post(
+		"/2fa/verify",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).verifyTwoFactor();
+		})
+	);
+
+	// Setting up requires a verified address, through which a lost authenticator is recovered
+	router.post(
+		"/2fa/setup",
+		isAuthenticated,
+		requireSession,
+		blockImpersonation,
+		isVerified,
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).setupTwoFactor();
+		})
+	);
+
+	router.post(
+		"/2fa/enable",
+		isAuthenticated,
+		requireSession,
+		blockImpersonation,
+		isVerified,
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).enableTwoFactor();
+		})
+	);
+
+	router.post(
+		"/2fa/disable",
+		isAuthenticated,
+		requireSession,
+		blockImpersonation,
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).disableTwoFactor();
+		})
+	);
+
+	router.post(
+		"/2fa/recovery-codes",
+		isAuthenticated,
+		requireSession,
+		blockImpersonation,
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).regenerateRecoveryCodes();
+		})
+	);
+
+	// Token based authentication for non-browser clients
+	router.post(
+		"/token",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).issueToken();
+		})
+	);
+
+	router.post(
+		"/token/refresh",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).refreshToken();
+		})
+	);
+
+	router.post(
+		"/token/revoke",
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).revokeToken();
+		})
+	);
+
+	router.post(
+		"/logout",
+		isAuthenticated,
+		requireSession,
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).logout();
+		})
+	);
+
+	// Get the currently authenticated user
+	router.get(
+		"/me",
+		isAuthenticated,
+		asyncErrorHandler(async (req, res) => {
+			await new AuthController(req, res).me();
+		})
+	);
+
+	return router;
+})();
@@ -0,0 +1,572 @@
+import { and, eq, isNull, or } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { type AuditContext } from "@/app/audit/audit.service";
+import type {
+	AuthForgotPasswordSchemaType,
+	AuthLoginSchemaType,
+	AuthOtpRequestSchemaType,
+	AuthOtpVerifySchemaType,
+	AuthRegisterSchemaType,
+	AuthResetPasswordSchemaType,
+	AuthTwoFactorVerifySchemaType
+} from "@/app/auth/auth.validators";
+import AuthTokenService from "@/app/auth/authToken.service";
+import TwoFactorService from "@/app/auth/twoFactor.service";
+import EmailOutboxService from "@/app/emailOutbox/emailOutbox.service";
+import LoginAttemptService, { type LoginAttemptKey } from "@/app/loginAttempt/loginAttempt.service";
+import VerificationTokenService from "@/app/verificationToken/verificationToken.service";
+
+import {
+	accountUnlockExpiryMinutes,
+	authEmailConfigName,
+	emailVerificationExpiryMinutes,
+	otpExpiryMinutes,
+	otpResendInterval,
+	passwordResetExpiryMinutes,
+	passwordResetPath
+} from "@/core/constants";
+import { AUDIT_ACTION_LIST, TOKEN_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import { users } from "@/models/drizzle/user.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { sessionStore } from "@/utils/sessionStore";
+
+export const accountDeactivatedMessage = "This account has been deactivated";
+
+export default class AuthService extends DrizzleService {
+	async register(data: AuthRegisterSchemaType): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const existingUser = await this.getDb().query.users.findFirst({
+				where: or(eq(users.username, data.username), eq(users.email, data.email))
+			});
+
+			if (existingUser) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.CONFLICT,
+					existingUser.email === data.email
+						? "Email is already registered"
+						: "Username is already taken"
+				);
+			}
+
+			const password = await AppHelpers.hashPassword(data.password);
+
+			const { password: _, ...user } = await this.getDb()
+				.insert(users)
+				.values({
+					name: data.name,
+					username: data.username,
+					email: data.email,
+					password
+				})
+				.returning()
+				.then(rows => rows[0]);
+
+			// The account is usable even if the email could not be delivered, it can be resent later
+			await this.sendVerificationEmail(user).catch(error =>
+				console.error("Failed to queue verification email:", error)
+			);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.CREATED,
+				"User registered successfully",
+				user
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async verifyCredentials(
+		data: AuthLoginSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const column =
+				AppHelpers.detectInputType(data.username) === "EMAIL" ? users.email : users.username;
+
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(column, data.username)
+			});
+
+			const loginAttemptService = new LoginAttemptService();
+			const attemptKeys = loginAttemptService.keysFor(client.ip, user ?? data.username);
+			await loginAttemptService.assertAllowed(attemptKeys);
+
+			const passwordMatches = await AppHelpers.verifyPassword(data.password, user?.password);
+
+			if (!user || !passwordMatches) {
+				await this.recordLoginFailure(
+					attemptKeys,
+					client,
+					{ method: "password", identifier: data.username },
+					user
+				);
+
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.UNAUTHORIZED,
+					"Invalid username or password"
+				);
+			}
+
+			// With a second factor pending, the counters are only reset once it is verified too
+			if (!user.twoFactorEnabledAt) await loginAttemptService.recordSuccess(attemptKeys);
+
+			// Only revealed once the credentials are proven
+			if (!user.isActive) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.FORBIDDEN,
+					accountDeactivatedMessage
+				);
+			}
+
+			const { password: _, ...sessionUser } = user;
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Logged in successfully", sessionUser);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Check the second factor of a login, counting wrong codes against the account like a wrong password
+	 *
+	 * @param userId
+	 * @param data
+	 * @param client
+	 */
+	async verifyTwoFactorLogin(
+		userId: number,
+		data: Partial<AuthTwoFactorVerifySchemaType>,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.id, userId),
+				columns: { id: true, name: true, email: true, username: true }
+			});
+
+			const loginAttemptService = new LoginAttemptService();
+			const attemptKeys = loginAttemptService.keysFor(client.ip, user);
+			await loginAttemptService.assertAllowed(attemptKeys);
+
+			const result = await new TwoFactorService().verifyLogin(userId, data).catch(async error => {
+				// A missing code is not a guess, only submitted codes are counted
+				if (data.code || data.recoveryCode) {
+					await this.recordLoginFailure(
+						attemptKeys,
+						client,
+						{ method: "two_factor", identifier: user?.username ?? String(userId) },
+						user
+					);
+				}
+
+				throw error;
+			});
+
+			await loginAttemptService.recordSuccess(attemptKeys);
+
+			return result;
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async requestLoginOtp(data: AuthOtpRequestSchemaType): Promise<ServiceApiResponse<null>> {
+		try {
+			const message = "If an account exists for this email, a login code has been sent";
+
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.email, data.email)
+			});
+
+			// Respond the same way for unknown emails
+			if (!user) return ServiceResponse.createResponse(StatusCodes.OK, message, null);
+
+			const verificationTokenService = new VerificationTokenService();
+			const latestToken = await verificationTokenService.latest(
+				TOKEN_LIST.LOGIN_OTP,
+				verificationTokenService.userSubject(user.id)
+			);
+
+			// Silently throttle repeated requests, a distinct response would reveal the account
+			if (latestToken && Date.now() - latestToken.createdAt.getTime() < otpResendInterval) {
+				return ServiceResponse.createResponse(StatusCodes.OK, message, null);
+			}
+
+			const otp = await verificationTokenService.issue({
+				type: TOKEN_LIST.LOGIN_OTP,
+				format: "code",
+				userId: user.id,
+				expiryMinutes: otpExpiryMinutes
+			});
+
+			await new EmailOutboxService().enqueue({
+				templateName: "login_otp",
+				emailConfigName: authEmailConfigName,
+				to: user.email,
+				templateData: {
+					username: user.name,
+					otp,
+					otpExpirationTime: otpExpiryMinutes
+				}
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, message, null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async verifyLoginOtp(
+		data: AuthOtpVerifySchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const invalidMessage = "Invalid or expired login code";
+
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.email, data.email)
+			});
+
+			const loginAttemptService = new LoginAttemptService();
+			const attemptKeys = loginAttemptService.keysFor(client.ip, user ?? data.email);
+			await loginAttemptService.assertAllowed(attemptKeys);
+
+			const verificationTokenService = new VerificationTokenService();
+			const result = user
+				? await verificationTokenService.verifyCode(
+						TOKEN_LIST.LOGIN_OTP,
+						verificationTokenService.userSubject(user.id),
+						data.otp
+					)
+				: undefined;
+
+			if (!user || result?.status !== "valid") {
+				await this.recordLoginFailure(
+					attemptKeys,
+					client,
+					{ method: "otp", identifier: data.email },
+					user
+				);
+
+				if (result?.status === "exhausted") {
+					return ServiceResponse.createRejectResponse(
+						StatusCodes.TOO_MANY_REQUESTS,
+						"Too many failed attempts. Please request a new login code"
+					);
+				}
+
+				return ServiceResponse.createRejectResponse(StatusCodes.UNAUTHORIZED, invalidMessage);
+			}
+
+			if (!user.twoFactorEnabledAt) await loginAttemptService.recordSuccess(attemptKeys);
+
+			if (!user.isActive) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.FORBIDDEN,
+					accountDeactivatedMessage
+				);
+			}
+
+			const { password: _, ...sessionUser } = user;
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Logged in successfully", sessionUser);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async forgotPassword(data: AuthForgotPasswordSchemaType): Promise<ServiceApiResponse<null>> {
+		try {
+			const message = "If an account exists for this email, a password reset link has been sent";
+
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.email, data.email)
+			});
+
+			// Never reveal whether the email is registered
+			if (!user) return ServiceResponse.createResponse(StatusCodes.OK, message, null);
+
+			const verificationTokenService = new VerificationTokenService();
+			const latestToken = await verificationTokenService.latest(
+				TOKEN_LIST.PASSWORD_RESET,
+				verificationTokenService.userSubject(user.id)
+			);
+
+			// Silently throttle repeated requests, the response must stay the same
+			if (latestToken && Date.now() - latestToken.createdAt.getTime() < otpResendInterval) {
+				return ServiceResponse.createResponse(StatusCodes.OK, message, null);
+			}
+
+			const resetToken = await verificationTokenService.issue({
+				type: TOKEN_LIST.PASSWORD_RESET,
+				format: "token",
+				userId: user.id,
+				expiryMinutes: passwordResetExpiryMinutes
+			});
+
+			await new EmailOutboxService().enqueue({
+				templateName: "password_reset",
+				emailConfigName: authEmailConfigName,
+				to: user.email,
+				templateData: {
+					username: user.name,
+					resetLink: AppHelpers.clientUrl(passwordResetPath, { token: resetToken }),
+					expirationTime: passwordResetExpiryMinutes
+				}
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, message, null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async resetPassword(
+		data: AuthResetPasswordSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<null>> {
+		try {
+			// The account is unknown until the token is found, so only the IP address is tracked
+			const loginAttemptService = new LoginAttemptService();
+			const attemptKeys = loginAttemptService.keysFor(client.ip);
+			await loginAttemptService.assertAllowed(attemptKeys);
+
+			const token = await new VerificationTokenService().consume(
+				TOKEN_LIST.PASSWORD_RESET,
+				data.token
+			);
+
+			if (!token?.userId) {
+				await loginAttemptService.recordFailure(attemptKeys);
+
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Invalid or expired password reset link"
+				);
+			}
+
+			await this.getDb()
+				.update(users)
+				.set({ password: await AppHelpers.hashPassword(data.newPassword) })
+				.where(eq(users.id, token.userId));
+
+			// Sign the user out everywhere
+			await sessionStore.destroyByUserId(token.userId);
+			await new AuthTokenService().revokeAllForUser(token.userId);
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.PASSWORD_RESET,
+				actorId: token.userId,
+				targetType: "user",
+				targetId: token.userId
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Password has been reset successfully. Please log in with your new password",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async resendVerificationEmail(user: Express.User): Promise<ServiceApiResponse<null>> {
+		try {
+			if (user.emailVerifiedAt) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Email address is already verified"
+				);
+			}
+
+			const verificationTokenService = new VerificationTokenService();
+			const latestToken = await verificationTokenService.latest(
+				TOKEN_LIST.EMAIL_VERIFICATION,
+				verificationTokenService.userSubject(user.id)
+			);
+
+			const elapsed = latestToken ? Date.now() - latestToken.createdAt.getTime() : Infinity;
+			if (elapsed < otpResendInterval) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.TOO_MANY_REQUESTS,
+					`Please wait ${Math.ceil((otpResendInterval - elapsed) / 1000)} seconds before requesting a new verification email`
+				);
+			}
+
+			await this.sendVerificationEmail(user);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Verification email sent successfully",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async verifyEmail(token: string): Promise<ServiceApiResponse<null>> {
+		try {
+			const verificationToken = await new VerificationTokenService().consume(
+				TOKEN_LIST.EMAIL_VERIFICATION,
+				token
+			);
+
+			if (!verificationToken?.userId) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Invalid or expired verification link"
+				);
+			}
+
+			await this.getDb()
+				.update(users)
+				.set({ emailVerifiedAt: new Date() })
+				.where(and(eq(users.id, verificationToken.userId), isNull(users.emailVerifiedAt)));
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email address verified successfully",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async unlockAccount(token: string, client: AuditContext): Promise<ServiceApiResponse<null>> {
+		try {
+			const unlockToken = await new VerificationTokenService().consume(
+				TOKEN_LIST.ACCOUNT_UNLOCK,
+				token
+			);
+
+			if (!unlockToken?.userId) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Invalid or expired unlock link"
+				);
+			}
+
+			await new LoginAttemptService().unlockUser(unlockToken.userId);
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.ACCOUNT_UNLOCKED,
+				actorId: unlockToken.userId,
+				targetType: "user",
+				targetId: unlockToken.userId
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Your account has been unlocked. You can log in again",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Load the user of a session, access token or API key
+	 * Deactivated users are not found, which signs them out everywhere
+	 *
+	 * @param id
+	 */
+	async findSessionUser(id: number): Promise<Express.User | undefined> {
+		return this.getDb().query.users.findFirst({
+			where: and(eq(users.id, id), eq(users.isActive, true)),
+			columns: { password: false }
+		});
+	}
+
+	/**
+	 * Count and audit a failed login, and email the owner when it locked the account
+	 *
+	 * @param attemptKeys
+	 * @param client
+	 * @param metadata How the login was attempted and the submitted identifier
+	 * @param user
+	 */
+	private async recordLoginFailure(
+		attemptKeys: LoginAttemptKey[],
+		client: AuditContext,
+		metadata: { method: string; identifier: string },
+		user?: { id: number; name: string; email: string }
+	): Promise<void> {
+		const { lockedMinutes } = await new LoginAttemptService().recordFailure(attemptKeys);
+
+		const auditService = new AuditService();
+		await auditService.record(client, {
+			action: AUDIT_ACTION_LIST.LOGIN_FAILED,
+			targetType: user ? "user" : undefined,
+			targetId: user?.id,
+			metadata
+		});
+
+		if (!user || !lockedMinutes) return;
+
+		console.warn(`Account #${user.id} locked for ${lockedMinutes} minutes after failed logins`);
+
+		await auditService.record(client, {
+			action: AUDIT_ACTION_LIST.ACCOUNT_LOCKED,
+			targetType: "user",
+			targetId: user.id,
+			metadata: { lockedMinutes }
+		});
+
+		// The lockout holds even if the email could not be delivered
+		await this.sendUnlockEmail(user, lockedMinutes).catch(error =>
+			console.error("Failed to queue account unlock email:", error)
+		);
+	}
+
+	private async sendUnlockEmail(
+		user: { id: number; name: string; email: string },
+		lockedMinutes: number
+	): Promise<void> {
+		const unlockToken = await new VerificationTokenService().issue({
+			type: TOKEN_LIST.ACCOUNT_UNLOCK,
+			format: "token",
+			userId: user.id,
+			expiryMinutes: accountUnlockExpiryMinutes
+		});
+
+		await new EmailOutboxService().enqueue({
+			templateName: "account_unlock",
+			emailConfigName: authEmailConfigName,
+			to: user.email,
+			templateData: {
+				username: user.name,
+				unlockLink: `${process.env.API_URL}/auth/unlock/${unlockToken}`,
+				lockoutTime: lockedMinutes,
+				expirationTime: accountUnlockExpiryMinutes
+			}
+		});
+	}
+
+	private async sendVerificationEmail(user: Express.User): Promise<void> {
+		const verificationToken = await new VerificationTokenService().issue({
+			type: TOKEN_LIST.EMAIL_VERIFICATION,
+			format: "token",
+			userId: user.id,
+			expiryMinutes: emailVerificationExpiryMinutes
+		});
+
+		await new EmailOutboxService().enqueue({
+			templateName: "email_verification",
+			emailConfigName: authEmailConfigName,
+			to: user.email,
+			templateData: {
+				username: user.name,
+				verificationLink: `${process.env.API_URL}/auth/verify-email/${verificationToken}`,
+				expirationTime: emailVerificationExpiryMinutes
+			}
+		});
+	}
+}
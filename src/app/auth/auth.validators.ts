@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+import { otpLength, totpDigits } from "@/core/constants";
+import { zodMessages } from "@/core/messages";
+import {
+	validateConfirmPassword,
+	validateEmail,
+	validateNewPassword,
+	validatePassword,
+	validateString,
+	validateUsername,
+	validateUsernameOrEmail
+} from "@/validators/commonRules";
+
+export const authRegisterSchema = z
+	.object({
+		name: validateString("Name", { min: 1, max: 255 }),
+		username: validateUsername,
+		email: validateEmail,
+		password: validatePassword,
+		confirmPassword: validateConfirmPassword
+	})
+	.refine(data => data.password === data.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"]
+	});
+
+export const authLoginSchema = z.object({
+	username: validateUsernameOrEmail,
+	password: validateString("Password", { min: 1 })
+});
+
+export const authOtpRequestSchema = z.object({
+	email: validateEmail
+});
+
+export const authOtpVerifySchema = z.object({
+	email: validateEmail,
+	otp: validateString("OTP", {
+		regex: new RegExp(`^\\d{${otpLength}}$`),
+		regexMsg: zodMessages.error.limit.length("OTP", otpLength)
+	})
+});
+
+export const authForgotPasswordSchema = z.object({
+	email: validateEmail
+});
+
+export const authResetPasswordSchema = z
+	.object({
+		token: validateString("Token", { min: 1 }),
+		newPassword: validateNewPassword,
+		confirmPassword: validateConfirmPassword
+	})
+	.refine(data => data.newPassword === data.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"]
+	});
+
+export const authRefreshTokenSchema = z.object({
+	refreshToken: validateString("Refresh Token", { min: 1 })
+});
+
+export const authTokenIssueSchema = authLoginSchema.extend({
+	code: validateString("Code", { min: 1 }).optional(),
+	recoveryCode: validateString("Recovery Code", { min: 1 }).optional()
+});
+
+export const authTwoFactorCodeSchema = z.object({
+	code: validateString("Code", {
+		regex: new RegExp(`^\\d{${totpDigits}}$`),
+		regexMsg: zodMessages.error.limit.length("Code", totpDigits)
+	})
+});
+
+// Either a code from the authenticator app or one of the recovery codes
+export const authTwoFactorVerifySchema = z
+	.object({
+		code: validateString("Code", {
+			regex: new RegExp(`^\\d{${totpDigits}}$`),
+			regexMsg: zodMessages.error.limit.length("Code", totpDigits)
+		}).optional(),
+		recoveryCode: validateString("Recovery Code", { min: 1, max: 32 }).optional()
+	})
+	.refine(data => data.code || data.recoveryCode, {
+		message: "Code or Recovery Code is required",
+		path: ["code"]
+	});
+
+export type AuthRegisterSchemaType = z.infer<typeof authRegisterSchema>;
+export type AuthLoginSchemaType = z.infer<typeof authLoginSchema>;
+export type AuthOtpRequestSchemaType = z.infer<typeof authOtpRequestSchema>;
+export type AuthOtpVerifySchemaType = z.infer<typeof authOtpVerifySchema>;
+export type AuthForgotPasswordSchemaType = z.infer<typeof authForgotPasswordSchema>;
+export type AuthResetPasswordSchemaType = z.infer<typeof authResetPasswordSchema>;
+export type AuthRefreshTokenSchemaType = z.infer<typeof authRefreshTokenSchema>;
+export type AuthTokenIssueSchemaType = z.infer<typeof authTokenIssueSchema>;
+export type AuthTwoFactorCodeSchemaType = z.infer<typeof authTwoFactorCodeSchema>;
+export type AuthTwoFactorVerifySchemaType = z.infer<typeof authTwoFactorVerifySchema>;
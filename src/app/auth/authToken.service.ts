@@ -0,0 +1,176 @@
+import crypto from "crypto";
+import { and, eq, isNull } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import jwt from "jsonwebtoken";
+
+import { accessTokenTimeout, refreshTokenTimeout } from "@/core/constants";
+import DrizzleService from "@/databases/drizzle/service";
+import { refreshTokens } from "@/models/drizzle/refreshToken.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+
+export interface AuthTokenPair {
+	tokenType: "Bearer";
+	accessToken: string;
+	expiresIn: number;
+	refreshToken: string;
+	refreshTokenExpiresAt: Date;
+}
+
+interface AccessTokenPayload extends jwt.JwtPayload {
+	sub: string;
+	type: "access";
+}
+
+const jwtAlgorithm = "HS256";
+
+export default class AuthTokenService extends DrizzleService {
+	private get secret(): string {
+		return process.env.JWT_SECRET || process.env.SECRET;
+	}
+
+	/**
+	 * Issue a new access token and start a new refresh token family
+	 *
+	 * @param user
+	 */
+	async issue(user: Express.User): Promise<ServiceApiResponse<AuthTokenPair>> {
+		try {
+			const tokens = await this.createTokenPair(user.id, crypto.randomUUID());
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Tokens issued successfully", tokens);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Exchange a refresh token for a new token pair
+	 * Presenting an already rotated token revokes the whole family, as it means the token leaked
+	 *
+	 * @param refreshToken
+	 */
+	async refresh(refreshToken: string): Promise<ServiceApiResponse<AuthTokenPair>> {
+		try {
+			const invalidMessage = "Invalid or expired refresh token";
+
+			const storedToken = await this.getDb().query.refreshTokens.findFirst({
+				where: eq(refreshTokens.tokenHash, AppHelpers.hashToken(refreshToken))
+			});
+
+			if (!storedToken || storedToken.revokedAt || storedToken.expiresAt <= new Date()) {
+				return ServiceResponse.createRejectResponse(StatusCodes.UNAUTHORIZED, invalidMessage);
+			}
+
+			// Mark the token as used, guarding against concurrent rotation
+			const rotated = await this.getDb()
+				.update(refreshTokens)
+				.set({ usedAt: new Date() })
+				.where(and(eq(refreshTokens.id, storedToken.id), isNull(refreshTokens.usedAt)))
+				.returning({ id: refreshTokens.id });
+
+			if (rotated.length === 0) {
+				await this.revokeFamily(storedToken.familyId);
+				console.warn(
+					`Refresh token reuse detected for user #${storedToken.userId}, token family revoked`
+				);
+
+				return ServiceResponse.createRejectResponse(StatusCodes.UNAUTHORIZED, invalidMessage);
+			}
+
+			const tokens = await this.createTokenPair(storedToken.userId, storedToken.familyId);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Tokens refreshed successfully",
+				tokens
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Revoke the family of a refresh token (log out a client)
+	 *
+	 * @param refreshToken
+	 */
+	async revoke(refreshToken: string): Promise<ServiceApiResponse<null>> {
+		try {
+			const storedToken = await this.getDb().query.refreshTokens.findFirst({
+				where: eq(refreshTokens.tokenHash, AppHelpers.hashToken(refreshToken))
+			});
+
+			if (storedToken) await this.revokeFamily(storedToken.familyId);
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Token revoked successfully", null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Revoke every refresh token of a user
+	 *
+	 * @param userId
+	 */
+	async revokeAllForUser(userId: number): Promise<void> {
+		await this.getDb()
+			.update(refreshTokens)
+			.set({ revokedAt: new Date() })
+			.where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+	}
+
+	/**
+	 * Verify an access token and return the id of its user
+	 * Throws `JsonWebTokenError` / `TokenExpiredError`, which the global error handler maps to 401
+	 *
+	 * @param accessToken
+	 */
+	verifyAccessToken(accessToken: string): number {
+		const payload = jwt.verify(accessToken, this.secret, {
+			algorithms: [jwtAlgorithm]
+		}) as AccessTokenPayload;
+
+		if (payload.type !== "access" || isNaN(Number(payload.sub))) {
+			throw new jwt.JsonWebTokenError("Invalid token payload");
+		}
+
+		return Number(payload.sub);
+	}
+
+	private async createTokenPair(userId: number, familyId: string): Promise<AuthTokenPair> {
+		const accessToken = jwt.sign({ type: "access" }, this.secret, {
+			algorithm: jwtAlgorithm,
+			subject: String(userId),
+			expiresIn: accessTokenTimeout
+		});
+
+		const refreshToken = crypto.randomBytes(48).toString("base64url");
+		const refreshTokenExpiresAt = new Date(Date.now() + refreshTokenTimeout);
+
+		await this.getDb()
+			.insert(refreshTokens)
+			.values({
+				userId,
+				familyId,
+				tokenHash: AppHelpers.hashToken(refreshToken),
+				expiresAt: refreshTokenExpiresAt
+			});
+
+		return {
+			tokenType: "Bearer",
+			accessToken,
+			expiresIn: accessTokenTimeout,
+			refreshToken,
+			refreshTokenExpiresAt
+		};
+	}
+
+	private async revokeFamily(familyId: string): Promise<void> {
+		await this.getDb()
+			.update(refreshTokens)
+			.set({ revokedAt: new Date() })
+			.where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+	}
+}
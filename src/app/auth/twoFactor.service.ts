@@ -0,0 +1,268 @@
+import crypto from "crypto";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import type { AuthTwoFactorVerifySchemaType } from "@/app/auth/auth.validators";
+
+import { recoveryCodeCount, totpDigits, totpStep, twoFactorIssuer } from "@/core/constants";
+import DrizzleService from "@/databases/drizzle/service";
+import { recoveryCodes } from "@/models/drizzle/recoveryCode.model";
+import { twoFactorSecrets } from "@/models/drizzle/twoFactorSecret.model";
+import { users } from "@/models/drizzle/user.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+
+export interface TwoFactorSetup {
+	secret: string;
+	otpauthUrl: string;
+}
+
+export interface TwoFactorRecoveryCodes {
+	recoveryCodes: string[];
+}
+
+export default class TwoFactorService extends DrizzleService {
+	/**
+	 * Generate a new secret for the user to add to an authenticator app
+	 * Two-factor authentication is only enabled once a first code is confirmed
+	 *
+	 * @param user
+	 */
+	async setup(user: Express.User): Promise<ServiceApiResponse<TwoFactorSetup>> {
+		try {
+			if (user.twoFactorEnabledAt) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Two-factor authentication is already enabled"
+				);
+			}
+
+			const secret = AppHelpers.base32Encode(crypto.randomBytes(20));
+
+			await this.getDb()
+				.insert(twoFactorSecrets)
+				.values({ userId: user.id, secret: AppHelpers.encrypt(secret) })
+				.onConflictDoUpdate({
+					target: twoFactorSecrets.userId,
+					set: { secret: AppHelpers.encrypt(secret), lastUsedStep: null, updatedAt: new Date() }
+				});
+
+			const label = encodeURIComponent(`${twoFactorIssuer}:${user.email}`);
+			const params = new URLSearchParams({
+				secret,
+				issuer: twoFactorIssuer,
+				algorithm: "SHA1",
+				digits: String(totpDigits),
+				period: String(totpStep)
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Scan the QR code with your authenticator app, then confirm with a code",
+				{ secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async enable(
+		user: Express.User,
+		code: string
+	): Promise<ServiceApiResponse<TwoFactorRecoveryCodes>> {
+		try {
+			if (user.twoFactorEnabledAt) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Two-factor authentication is already enabled"
+				);
+			}
+
+			if (!(await this.verifyCode(user.id, code))) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Invalid authentication code"
+				);
+			}
+
+			const codes = this.generateRecoveryCodes();
+
+			await this.getDb().transaction(async tx => {
+				await tx.update(users).set({ twoFactorEnabledAt: new Date() }).where(eq(users.id, user.id));
+				await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, user.id));
+				await tx.insert(recoveryCodes).values(this.recoveryCodeRows(user.id, codes));
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Two-factor authentication enabled. Store the recovery codes somewhere safe",
+				{ recoveryCodes: codes }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async disable(
+		user: Express.User,
+		data: AuthTwoFactorVerifySchemaType
+	): Promise<ServiceApiResponse<null>> {
+		try {
+			await this.verifyLogin(user.id, data);
+
+			await this.getDb().transaction(async tx => {
+				await tx.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, user.id));
+				await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, user.id));
+				await tx.update(users).set({ twoFactorEnabledAt: null }).where(eq(users.id, user.id));
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Two-factor authentication disabled",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async regenerateRecoveryCodes(
+		user: Express.User,
+		data: AuthTwoFactorVerifySchemaType
+	): Promise<ServiceApiResponse<TwoFactorRecoveryCodes>> {
+		try {
+			await this.verifyLogin(user.id, data);
+
+			const codes = this.generateRecoveryCodes();
+
+			await this.getDb().transaction(async tx => {
+				await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, user.id));
+				await tx.insert(recoveryCodes).values(this.recoveryCodeRows(user.id, codes));
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Recovery codes regenerated. The previous codes no longer work",
+				{ recoveryCodes: codes }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Check the second factor of a user, either an authenticator code or an unused recovery code
+	 *
+	 * @param userId
+	 * @param data
+	 */
+	async verifyLogin(
+		userId: number,
+		data: Partial<AuthTwoFactorVerifySchemaType>
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.id, userId),
+				columns: { password: false }
+			});
+
+			if (!user || !user.twoFactorEnabledAt) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Two-factor authentication is not enabled"
+				);
+			}
+
+			const verified = data.recoveryCode
+				? await this.consumeRecoveryCode(user.id, data.recoveryCode)
+				: !!data.code && (await this.verifyCode(user.id, data.code));
+
+			if (!verified) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.UNAUTHORIZED,
+					data.recoveryCode || data.code
+						? "Invalid authentication code"
+						: "Two-factor authentication code is required"
+				);
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Logged in successfully", user);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Verify a TOTP code and record its time step so it cannot be replayed
+	 *
+	 * @param userId
+	 * @param code
+	 */
+	private async verifyCode(userId: number, code: string): Promise<boolean> {
+		const twoFactorSecret = await this.getDb().query.twoFactorSecrets.findFirst({
+			where: eq(twoFactorSecrets.userId, userId)
+		});
+
+		if (!twoFactorSecret) return false;
+
+		const secret = AppHelpers.base32Decode(AppHelpers.decrypt(twoFactorSecret.secret));
+		const step = AppHelpers.verifyTOTP(secret, code);
+
+		if (step === null) return false;
+
+		const accepted = await this.getDb()
+			.update(twoFactorSecrets)
+			.set({ lastUsedStep: step })
+			.where(
+				and(
+					eq(twoFactorSecrets.id, twoFactorSecret.id),
+					or(isNull(twoFactorSecrets.lastUsedStep), lt(twoFactorSecrets.lastUsedStep, step))
+				)
+			)
+			.returning({ id: twoFactorSecrets.id });
+
+		return accepted.length > 0;
+	}
+
+	private async consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+		const consumed = await this.getDb()
+			.update(recoveryCodes)
+			.set({ usedAt: new Date() })
+			.where(
+				and(
+					eq(recoveryCodes.userId, userId),
+					eq(recoveryCodes.codeHash, AppHelpers.hashToken(this.normalizeRecoveryCode(code))),
+					isNull(recoveryCodes.usedAt)
+				)
+			)
+			.returning({ id: recoveryCodes.id });
+
+		return consumed.length > 0;
+	}
+
+	private generateRecoveryCodes(): string[] {
+		return Array.from({ length: recoveryCodeCount }, () =>
+			crypto
+				.randomBytes(5)
+				.toString("hex")
+				.replace(/(.{5})/, "$1-")
+		);
+	}
+
+	/**
+	 * Only the hashes of the recovery codes are stored
+	 *
+	 * @param userId
+	 * @param codes
+	 */
+	private recoveryCodeRows(userId: number, codes: string[]) {
+		return codes.map(code => ({
+			userId,
+			codeHash: AppHelpers.hashToken(this.normalizeRecoveryCode(code))
+		}));
+	}
+
+	private normalizeRecoveryCode(code: string): string {
+		return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+	}
+}
@@ -1,15 +1,23 @@
 import type { Request, Response } from "express";
 
-import EmailService from "@/app/email/email.service";
-import { emailQuerySchema, emailUpdateSchema } from "@/app/email/email.validators";
-
-import { ApiController } from "@/core/controller";
+import AuditService, { auditChanges, auditContext } from "@/app/audit/audit.service";
+import EmailService, { maskEmailSecrets } from "@/app/email/email.service";
+import {
+	emailCreateSchema,
+	emailQuerySchema,
+	emailSmtpSchema,
+	emailUpdateSchema
+} from "@/app/email/email.validators";
+
+import { ApiController, type ApiCrudController } from "@/core/controller";
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
 import { email } from "@/models/drizzle/email.model";
 import { SortingHelper } from "@/utils/sortingHelper";
 
-export default class EmailController extends ApiController {
+export default class EmailController extends ApiController implements ApiCrudController {
 	private readonly sortingHelper: SortingHelper<typeof email>;
 	protected readonly emailService: EmailService;
+	protected readonly auditService: AuditService;
 
 	/**
 	 * Construct the controller
@@ -20,7 +28,9 @@ export default class EmailController extends ApiController {
 	constructor(request: Request, response: Response) {
 		super(request, response);
 		this.sortingHelper = new SortingHelper(email);
-		this.emailService = new EmailService();
+		// Configurations of the organization the request targets, global ones otherwise
+		this.emailService = new EmailService().setOrganization(request.organization?.id);
+		this.auditService = new AuditService();
 	}
 
 	async index(): Promise<Response> {
@@ -33,7 +43,30 @@ export default class EmailController extends ApiController {
 
 		const data = await this.emailService.retrieve(check.data);
 
-		return this.apiResponse.sendResponse(data);
+		return this.apiResponse.sendResponse({ ...data, data: data.data.map(maskEmailSecrets) });
+	}
+
+	async create(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = emailCreateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		// Validate SMTP connection before saving to database
+		await this.emailService.validateSmtpConnection(check.data);
+
+		const data = await this.emailService.create(check.data);
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.EMAIL_CONFIG_CREATED,
+			targetType: "email",
+			targetId: data.data.id,
+			metadata: { emailConfigName: data.data.emailConfigName, isDefault: data.data.isDefault }
+		});
+
+		return this.apiResponse.sendResponse({ ...data, data: maskEmailSecrets(data.data) });
 	}
 
 	async show(): Promise<Response> {
@@ -43,7 +76,7 @@ export default class EmailController extends ApiController {
 
 		const data = await this.emailService.retrieveOne(Number(id));
 
-		return this.apiResponse.sendResponse(data);
+		return this.apiResponse.sendResponse({ ...data, data: maskEmailSecrets(data.data) });
 	}
 
 	async update(): Promise<Response> {
@@ -57,18 +90,65 @@ export default class EmailController extends ApiController {
 			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
 		}
 
+		const previous = await this.emailService.retrieveOne(Number(id));
+
 		// Validate SMTP connection before saving to database
-		await this.emailService.validateSmtpConnection(check.data);
+		await this.emailService.validateUpdatedSmtpConnection(previous.data, check.data);
 
 		const data = await this.emailService.update(Number(id), check.data);
 
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.EMAIL_CONFIG_UPDATED,
+			targetType: "email",
+			targetId: data.data.id,
+			changes: auditChanges(previous.data, data.data)
+		});
+
+		return this.apiResponse.sendResponse({ ...data, data: maskEmailSecrets(data.data) });
+	}
+
+	async delete(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Email ID must be a number");
+
+		const previous = await this.emailService.retrieveOne(Number(id));
+
+		const data = await this.emailService.delete(Number(id));
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.EMAIL_CONFIG_DELETED,
+			targetType: "email",
+			targetId: previous.data.id,
+			metadata: { emailConfigName: previous.data.emailConfigName }
+		});
+
 		return this.apiResponse.sendResponse(data);
 	}
 
+	async setDefault(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Email ID must be a number");
+
+		const previous = await this.emailService.retrieveOne(Number(id));
+
+		const data = await this.emailService.setDefault(Number(id));
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.EMAIL_CONFIG_UPDATED,
+			targetType: "email",
+			targetId: data.data.id,
+			changes: auditChanges(previous.data, data.data)
+		});
+
+		return this.apiResponse.sendResponse({ ...data, data: maskEmailSecrets(data.data) });
+	}
+
 	async testSmtpConnection(): Promise<Response> {
 		const { body } = this.request;
 
-		const check = emailUpdateSchema.safeParse(body);
+		const check = emailSmtpSchema.safeParse(body);
 		if (!check.success) {
 			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
 		}
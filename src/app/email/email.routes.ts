@@ -1,22 +1,40 @@
 import express, { Router } from "express";
 
+import { isAuthenticated } from "@/app/auth/auth.middleware";
 import EmailController from "@/app/email/email.controller";
+import {
+	requireOrganizationPermission,
+	resolveOrganization
+} from "@/app/organization/organization.middleware";
 
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
 import { asyncErrorHandler } from "@/settings/errorHandler";
 
 export const emailRouter: Router = (() => {
 	const router = express.Router();
 
-	// Get all emails
-	router.get(
-		"",
-		asyncErrorHandler(async (req, res) => {
-			await new EmailController(req, res).index();
-		})
-	);
+	// Within an organization, its owners and administrators stand in for the global permissions
+	router.use(isAuthenticated, resolveOrganization);
+
+	router
+		.route("")
+		// Get all emails
+		.get(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailController(req, res).index();
+			})
+		)
+		.post(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailController(req, res).create();
+			})
+		);
 
 	// Test SMTP connection without saving
 	router.route("/test-smtp").post(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
 		asyncErrorHandler(async (req, res) => {
 			await new EmailController(req, res).testSmtpConnection();
 		})
@@ -25,15 +43,31 @@ export const emailRouter: Router = (() => {
 	router
 		.route("/:id")
 		.get(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
 			asyncErrorHandler(async (req, res) => {
 				await new EmailController(req, res).show();
 			})
 		)
 		.put(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
 			asyncErrorHandler(async (req, res) => {
 				await new EmailController(req, res).update();
 			})
+		)
+		.delete(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailController(req, res).delete();
+			})
 		);
 
+	// Use the configuration for every send that does not name one
+	router.route("/:id/default").post(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailController(req, res).setDefault();
+		})
+	);
+
 	return router;
 })();
@@ -1,16 +1,35 @@
-import { and, count, eq, gte, ilike, lte, or } from "drizzle-orm";
+import { and, count, eq, gte, ilike, inArray, lte, or } from "drizzle-orm";
 import { StatusCodes } from "http-status-codes";
 import nodemailer from "nodemailer";
 
-import type { EmailQuerySchemaType, EmailUpdateSchemaType } from "@/app/email/email.validators";
+import type {
+	EmailCreateSchemaType,
+	EmailQuerySchemaType,
+	EmailSmtpSchemaType,
+	EmailUpdateSchemaType
+} from "@/app/email/email.validators";
 
+import { authEmailConfigName, secretMask } from "@/core/constants";
 import PaginationManager from "@/core/pagination";
-import DrizzleService from "@/databases/drizzle/service";
+import { EMAIL_OUTBOX_STATUS_LIST } from "@/databases/drizzle/lists";
+import DrizzleService, { type DrizzleTransaction } from "@/databases/drizzle/service";
 import type { EmailSchemaType } from "@/databases/drizzle/types";
+import { decryptEmailPassword, encryptEmailPassword } from "@/mailer/credentials";
+import { EmailTransportRegistry } from "@/mailer/transports";
 import { email } from "@/models/drizzle/email.model";
+import { emailOutbox } from "@/models/drizzle/emailOutbox.model";
 import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
 import { SortingHelper } from "@/utils/sortingHelper";
 
+/**
+ * Hide the secrets of a configuration before it is returned to a client
+ *
+ * @param config
+ */
+export function maskEmailSecrets(config: EmailSchemaType): EmailSchemaType {
+	return { ...config, password: secretMask };
+}
+
 export default class EmailService extends DrizzleService {
 	private readonly sortingHelper: SortingHelper<typeof email>;
 
@@ -46,13 +65,14 @@ export default class EmailService extends DrizzleService {
 							ilike(email.host, `%${filter.search}%`)
 						)
 					: undefined,
+				this.tenantScope(email),
 				fromDate ? gte(email.createdAt, fromDate) : undefined,
 				toDate ? lte(email.createdAt, toDate) : undefined
 			].filter(Boolean);
 
 			const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
-			const totalItems = await this.db
+			const totalItems = await this.getDb()
 				.select({
 					count: count()
 				})
@@ -66,7 +86,7 @@ export default class EmailService extends DrizzleService {
 				totalItems
 			).createPagination();
 
-			const data = await this.db.query.email.findMany({
+			const data = await this.getDb().query.email.findMany({
 				where: whereClause,
 				limit: filter.limit ? filter.limit : undefined,
 				offset: filter.limit ? offset : undefined,
@@ -91,7 +111,8 @@ export default class EmailService extends DrizzleService {
 		try {
 			const orderBy = this.sortingHelper.applySorting(sortingMethod, sortBy);
 
-			const data = await this.db.query.email.findMany({
+			const data = await this.getDb().query.email.findMany({
+				where: this.tenantScope(email),
 				orderBy
 			});
 
@@ -103,8 +124,8 @@ export default class EmailService extends DrizzleService {
 
 	async retrieveOne(id: number): Promise<ServiceApiResponse<EmailSchemaType>> {
 		try {
-			const data = await this.db.query.email.findFirst({
-				where: eq(email.id, id)
+			const data = await this.getDb().query.email.findFirst({
+				where: and(eq(email.id, id), this.tenantScope(email))
 			});
 
 			if (!data) {
@@ -117,12 +138,19 @@ export default class EmailService extends DrizzleService {
 		}
 	}
 
+	/**
+	 * Retrieve a configuration by name
+	 * The configuration of the current organization is preferred over the global one
+	 *
+	 * @param configName
+	 */
 	async retrieveOneByConfigName(
 		configName: string
 	): Promise<ServiceApiResponse<EmailSchemaType | null>> {
 		try {
-			const data = await this.db.query.email.findFirst({
-				where: eq(email.emailConfigName, configName)
+			const data = await this.getDb().query.email.findFirst({
+				where: and(eq(email.emailConfigName, configName), this.tenantOrGlobalScope(email)),
+				orderBy: this.tenantPriority(email)
 			});
 
 			if (!data) {
@@ -135,15 +163,83 @@ export default class EmailService extends DrizzleService {
 		}
 	}
 
+	/**
+	 * Retrieve the default configuration
+	 * The default of the current organization is preferred over the global one
+	 */
+	async retrieveDefault(): Promise<ServiceApiResponse<EmailSchemaType | null>> {
+		try {
+			const data = await this.getDb().query.email.findFirst({
+				where: and(eq(email.isDefault, true), this.tenantOrGlobalScope(email)),
+				orderBy: this.tenantPriority(email)
+			});
+
+			if (!data) {
+				return ServiceResponse.createResponse(
+					StatusCodes.NOT_FOUND,
+					"No default email configuration",
+					null
+				);
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Email retrieved successfully", data);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async create(data: EmailCreateSchemaType): Promise<ServiceApiResponse<EmailSchemaType>> {
+		try {
+			const existing = await this.getDb().query.email.findFirst({
+				where: and(eq(email.emailConfigName, data.emailConfigName), this.tenantScope(email)),
+				columns: { id: true }
+			});
+
+			if (existing) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.CONFLICT,
+					"An email configuration with this name already exists"
+				);
+			}
+
+			const createdData = await this.db.transaction(async tx => {
+				if (data.isDefault) await this.clearDefault(tx);
+
+				return tx
+					.insert(email)
+					.values({
+						...data,
+						password: encryptEmailPassword(data.password),
+						organizationId: this.getOrganizationId()
+					})
+					.returning()
+					.then(rows => rows[0]);
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.CREATED,
+				"Email created successfully",
+				createdData
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
 	async update(
 		id: number,
-		data: Partial<Omit<EmailSchemaType, "id" | "emailConfigName" | "createdAt" | "updatedAt">>
+		data: Partial<
+			Omit<
+				EmailSchemaType,
+				"id" | "organizationId" | "emailConfigName" | "isDefault" | "createdAt" | "updatedAt"
+			>
+		>
 	): Promise<ServiceApiResponse<EmailSchemaType>> {
 		try {
-			const updatedData = await this.db
+			const updatedData = await this.getDb()
 				.update(email)
-				.set(data)
-				.where(eq(email.id, id))
+				.set({ ...data, ...(data.password && { password: encryptEmailPassword(data.password) }) })
+				.where(and(eq(email.id, id), this.tenantScope(email)))
 				.returning()
 				.then(rows => rows[0]);
 
@@ -151,6 +247,9 @@ export default class EmailService extends DrizzleService {
 				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "Email not found");
 			}
 
+			// Reconnect with the new settings on the next send
+			EmailTransportRegistry.release(id);
+
 			return ServiceResponse.createResponse(
 				StatusCodes.OK,
 				"Email updated successfully",
@@ -161,8 +260,75 @@ export default class EmailService extends DrizzleService {
 		}
 	}
 
+	/**
+	 * Make a configuration the default one of its organization, or the global default
+	 *
+	 * @param id
+	 */
+	async setDefault(id: number): Promise<ServiceApiResponse<EmailSchemaType>> {
+		try {
+			await this.retrieveOne(id);
+
+			const updatedData = await this.db.transaction(async tx => {
+				await this.clearDefault(tx);
+
+				return tx
+					.update(email)
+					.set({ isDefault: true })
+					.where(eq(email.id, id))
+					.returning()
+					.then(rows => rows[0]);
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Default email updated successfully",
+				updatedData
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Delete a configuration that is no longer referenced
+	 *
+	 * @param id
+	 */
+	async delete(id: number): Promise<ServiceApiResponse<null>> {
+		try {
+			const { data } = await this.retrieveOne(id);
+
+			await this.assertNotReferenced(data);
+
+			await this.getDb().delete(email).where(eq(email.id, id));
+			EmailTransportRegistry.release(id);
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Email deleted successfully", null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Validate the SMTP connection of an updated configuration
+	 * The stored password is used when the update keeps it, without ever leaving the service
+	 *
+	 * @param config The stored configuration
+	 * @param data
+	 */
+	async validateUpdatedSmtpConnection(
+		config: EmailSchemaType,
+		data: EmailUpdateSchemaType
+	): Promise<ServiceApiResponse<boolean>> {
+		return this.validateSmtpConnection({
+			...data,
+			password: data.password ?? decryptEmailPassword(config)
+		});
+	}
+
 	async validateSmtpConnection(
-		smtpConfig: EmailUpdateSchemaType
+		smtpConfig: EmailSmtpSchemaType
 	): Promise<ServiceApiResponse<boolean>> {
 		try {
 			const port = Number(smtpConfig.port);
@@ -218,4 +384,58 @@ export default class EmailService extends DrizzleService {
 			return ServiceResponse.createErrorResponse(error);
 		}
 	}
+
+	// Only one configuration of an organization, or globally, is the default
+	private async clearDefault(tx: DrizzleTransaction): Promise<void> {
+		await tx
+			.update(email)
+			.set({ isDefault: false })
+			.where(and(eq(email.isDefault, true), this.tenantScope(email)));
+	}
+
+	/**
+	 * The default configuration serves every send that does not name one,
+	 * and the global account configuration serves the emails sent by the authentication flows
+	 * Organization overrides of the account configuration fall back to the global one when deleted
+	 * Queued messages naming the configuration would otherwise fail once it is gone
+	 */
+	private async assertNotReferenced(config: EmailSchemaType): Promise<void> {
+		if (config.isDefault) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.CONFLICT,
+				"The default email configuration cannot be deleted, set another default first"
+			);
+		}
+
+		if (config.organizationId === null && config.emailConfigName === authEmailConfigName) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.CONFLICT,
+				"The email configuration is used for account emails and cannot be deleted"
+			);
+		}
+
+		// Organization messages fall back to a global configuration of the same name
+		const [queued] = await this.getDb()
+			.select({ count: count() })
+			.from(emailOutbox)
+			.where(
+				and(
+					eq(emailOutbox.emailConfigName, config.emailConfigName),
+					inArray(emailOutbox.status, [
+						EMAIL_OUTBOX_STATUS_LIST.PENDING,
+						EMAIL_OUTBOX_STATUS_LIST.SENDING
+					]),
+					config.organizationId === null
+						? undefined
+						: eq(emailOutbox.organizationId, config.organizationId)
+				)
+			);
+
+		if (queued.count > 0) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.CONFLICT,
+				`The email configuration is used by ${queued.count} queued emails and cannot be deleted until they are sent`
+			);
+		}
+	}
 }
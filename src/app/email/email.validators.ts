@@ -20,7 +20,7 @@ export const emailQuerySchema = <T extends PgTableWithColumns<any>>(
 	);
 };
 
-export const emailUpdateSchema = z.object({
+export const emailSmtpSchema = z.object({
 	host: validateString("Host"),
 	port: validateNumber("Port", { min: 1 }).max(65535, {
 		message: "Port must be between 1 and 65535"
@@ -32,5 +32,24 @@ export const emailUpdateSchema = z.object({
 	fromEmail: validateString("From Email")
 });
 
+// The stored password is kept when none is given, as responses only carry it masked
+export const emailUpdateSchema = emailSmtpSchema.extend({
+	password: validateString("Password").optional()
+});
+
+export const emailCreateSchema = emailSmtpSchema.extend({
+	// Referenced by name from code, e.g. `default_smtp` for account emails
+	emailConfigName: validateString("Email Config Name", {
+		min: 1,
+		max: 255,
+		regex: /^[a-z0-9_-]+$/,
+		regexMsg:
+			"Email Config Name must contain lowercase letters, digits, underscores and hyphens only"
+	}),
+	isDefault: validateBoolean("Is Default").optional()
+});
+
 export type EmailQuerySchemaType = z.infer<ReturnType<typeof emailQuerySchema>>;
+export type EmailSmtpSchemaType = z.infer<typeof emailSmtpSchema>;
+export type EmailCreateSchemaType = z.infer<typeof emailCreateSchema>;
 export type EmailUpdateSchemaType = z.infer<typeof emailUpdateSchema>;
@@ -0,0 +1,48 @@
+import type { Request, Response } from "express";
+
+import EmailLogService from "@/app/emailLog/emailLog.service";
+import { emailLogQuerySchema } from "@/app/emailLog/emailLog.validators";
+
+import { ApiController } from "@/core/controller";
+import { emailLogs } from "@/models/drizzle/emailLog.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class EmailLogController extends ApiController {
+	private readonly sortingHelper: SortingHelper<typeof emailLogs>;
+	protected readonly emailLogService: EmailLogService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sortingHelper = new SortingHelper(emailLogs);
+		this.emailLogService = new EmailLogService().setOrganization(request.organization?.id);
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = emailLogQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailLogService.retrieve(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async show(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Log ID must be a number");
+
+		const data = await this.emailLogService.retrieveOne(Number(id));
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
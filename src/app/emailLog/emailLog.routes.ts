@@ -0,0 +1,40 @@
+import express, { Router } from "express";
+
+import { isAuthenticated } from "@/app/auth/auth.middleware";
+import EmailLogController from "@/app/emailLog/emailLog.controller";
+import {
+	requireOrganizationPermission,
+	resolveOrganization
+} from "@/app/organization/organization.middleware";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+// Every attempt to deliver an email
+export const emailLogRouter: Router = (() => {
+	const router = express.Router();
+
+	// Within an organization, its owners and administrators stand in for the global permission
+	router.use(
+		isAuthenticated,
+		resolveOrganization,
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ)
+	);
+
+	router.get(
+		"",
+		asyncErrorHandler(async (req, res) => {
+			await new EmailLogController(req, res).index();
+		})
+	);
+
+	// Includes the rendered HTML, which the listing leaves out
+	router.get(
+		"/:id",
+		asyncErrorHandler(async (req, res) => {
+			await new EmailLogController(req, res).show();
+		})
+	);
+
+	return router;
+})();
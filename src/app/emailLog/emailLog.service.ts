@@ -0,0 +1,149 @@
+import { and, count, eq, getTableColumns, gte, ilike, lte, or, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import type { EmailLogQuerySchemaType } from "@/app/emailLog/emailLog.validators";
+
+import { systemEmailTemplateNames } from "@/core/constants";
+import PaginationManager from "@/core/pagination";
+import DrizzleService from "@/databases/drizzle/service";
+import type { EmailLogSchemaType } from "@/databases/drizzle/types";
+import { emailLogs } from "@/models/drizzle/emailLog.model";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export type EmailLogEntry = Omit<
+	typeof emailLogs.$inferInsert,
+	"id" | "organizationId" | "createdAt"
+>;
+
+// Listed without the rendered HTML, which only the detail view returns
+export type EmailLogSummary = Omit<EmailLogSchemaType, "html">;
+
+const { html: _html, ...summaryColumns } = getTableColumns(emailLogs);
+
+export default class EmailLogService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof emailLogs>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(emailLogs);
+	}
+
+	/**
+	 * Record a send attempt for the organization set with `setOrganization`
+	 * Failures are logged and swallowed so they never break the send
+	 * The HTML of system emails is left out, as it carries one-time codes and links
+	 *
+	 * @param entry
+	 */
+	async record(entry: EmailLogEntry): Promise<void> {
+		try {
+			const keepHtml = !systemEmailTemplateNames.includes(entry.templateName);
+
+			await this.getDb()
+				.insert(emailLogs)
+				.values({
+					...entry,
+					html: keepHtml ? entry.html : null,
+					organizationId: this.getOrganizationId()
+				});
+		} catch (error) {
+			console.error(`Failed to record email log for template ${entry.templateName}:`, error);
+		}
+	}
+
+	async retrieve(filter: EmailLogQuerySchemaType): Promise<ServiceApiResponse<EmailLogSummary[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			// Create date objects from string inputs if they exist
+			const fromDate = filter.from ? new Date(filter.from) : undefined;
+			const toDate = filter.to ? new Date(filter.to) : undefined;
+
+			// If toDate exists, set it to the end of the day
+			if (toDate) {
+				toDate.setHours(23, 59, 59, 999);
+			}
+
+			const conditions = [
+				filter.search
+					? or(
+							ilike(sql`${emailLogs.recipients}::text`, `%${filter.search}%`),
+							ilike(emailLogs.subject, `%${filter.search}%`),
+							ilike(emailLogs.messageId, `%${filter.search}%`),
+							ilike(emailLogs.error, `%${filter.search}%`)
+						)
+					: undefined,
+				filter.status ? eq(emailLogs.status, filter.status) : undefined,
+				filter.templateName ? eq(emailLogs.templateName, filter.templateName) : undefined,
+				filter.emailConfigName ? eq(emailLogs.emailConfigName, filter.emailConfigName) : undefined,
+				filter.outboxId ? eq(emailLogs.outboxId, filter.outboxId) : undefined,
+				fromDate ? gte(emailLogs.createdAt, fromDate) : undefined,
+				toDate ? lte(emailLogs.createdAt, toDate) : undefined
+			].filter(Boolean);
+
+			const whereClause = this.scopedWhere(emailLogs, ...conditions);
+
+			const query = this.getDb()
+				.select(summaryColumns)
+				.from(emailLogs)
+				.where(whereClause)
+				.orderBy(orderBy!);
+
+			if (!filter.page || !filter.limit) {
+				const data = await query;
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"Email logs retrieved successfully",
+					data
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(emailLogs)
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await query.limit(filter.limit).offset(offset);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email logs retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveOne(id: number): Promise<ServiceApiResponse<EmailLogSchemaType>> {
+		try {
+			const data = await this.getDb().query.emailLogs.findFirst({
+				where: this.scopedWhere(emailLogs, eq(emailLogs.id, id))
+			});
+
+			if (!data) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "Email log not found");
+			}
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email log retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+}
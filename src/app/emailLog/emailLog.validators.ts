@@ -0,0 +1,32 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { EMAIL_LOG_STATUS_LIST } from "@/databases/drizzle/lists";
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import { validateEnum, validatePositiveNumber, validateString } from "@/validators/commonRules";
+
+export const emailLogQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data),
+			status: data.status,
+			templateName: data.templateName,
+			emailConfigName: data.emailConfigName,
+			outboxId: data.outboxId ? Number(data.outboxId) : undefined
+		}),
+		z.object({
+			...baseQuerySchemaShape,
+			status: validateEnum("Status", EMAIL_LOG_STATUS_LIST.enumValues).optional(),
+			templateName: validateString("Template Name", { max: 255 }).optional(),
+			emailConfigName: validateString("Email Config Name", { max: 255 }).optional(),
+			outboxId: validatePositiveNumber("Outbox ID").optional()
+		})
+	);
+};
+
+export type EmailLogQuerySchemaType = z.infer<ReturnType<typeof emailLogQuerySchema>>;
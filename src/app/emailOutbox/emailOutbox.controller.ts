@@ -0,0 +1,65 @@
+import type { Request, Response } from "express";
+
+import { auditContext } from "@/app/audit/audit.service";
+import EmailOutboxService, { maskEmailOutboxSecrets } from "@/app/emailOutbox/emailOutbox.service";
+import { emailOutboxQuerySchema } from "@/app/emailOutbox/emailOutbox.validators";
+
+import { ApiController } from "@/core/controller";
+import { emailOutbox } from "@/models/drizzle/emailOutbox.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class EmailOutboxController extends ApiController {
+	private readonly sortingHelper: SortingHelper<typeof emailOutbox>;
+	protected readonly emailOutboxService: EmailOutboxService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sortingHelper = new SortingHelper(emailOutbox);
+		this.emailOutboxService = new EmailOutboxService().setOrganization(request.organization?.id);
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = emailOutboxQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailOutboxService.retrieve(check.data);
+
+		return this.apiResponse.sendResponse({ ...data, data: data.data.map(maskEmailOutboxSecrets) });
+	}
+
+	async show(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Message ID must be a number");
+
+		const data = await this.emailOutboxService.retrieveOne(Number(id));
+
+		return this.apiResponse.sendResponse({ ...data, data: maskEmailOutboxSecrets(data.data) });
+	}
+
+	async requeue(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Message ID must be a number");
+
+		const data = await this.emailOutboxService.requeue(Number(id), auditContext(this.request));
+
+		return this.apiResponse.sendResponse({ ...data, data: maskEmailOutboxSecrets(data.data) });
+	}
+
+	async requeueAll(): Promise<Response> {
+		const data = await this.emailOutboxService.requeueAll(auditContext(this.request));
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
@@ -0,0 +1,54 @@
+import express, { Router } from "express";
+
+import { isAuthenticated } from "@/app/auth/auth.middleware";
+import EmailOutboxController from "@/app/emailOutbox/emailOutbox.controller";
+import {
+	requireOrganizationPermission,
+	resolveOrganization
+} from "@/app/organization/organization.middleware";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+// Emails queued for background delivery
+export const emailOutboxRouter: Router = (() => {
+	const router = express.Router();
+
+	// Within an organization, its owners and administrators stand in for the global permissions
+	router.use(isAuthenticated, resolveOrganization);
+
+	router.get(
+		"",
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailOutboxController(req, res).index();
+		})
+	);
+
+	// Retry every message that ran out of attempts
+	router.post(
+		"/requeue",
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailOutboxController(req, res).requeueAll();
+		})
+	);
+
+	router.get(
+		"/:id",
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailOutboxController(req, res).show();
+		})
+	);
+
+	router.post(
+		"/:id/requeue",
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailOutboxController(req, res).requeue();
+		})
+	);
+
+	return router;
+})();
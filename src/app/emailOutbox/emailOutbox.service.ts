@@ -0,0 +1,382 @@
+import { type SQL, and, count, eq, gte, ilike, inArray, lt, lte, or, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { type AuditContext } from "@/app/audit/audit.service";
+import EmailService from "@/app/email/email.service";
+import EmailLogService from "@/app/emailLog/emailLog.service";
+import type { EmailOutboxQuerySchemaType } from "@/app/emailOutbox/emailOutbox.validators";
+import EmailTemplateService from "@/app/emailTemplate/emailTemplate.service";
+
+import {
+	emailOutboxBatchSize,
+	emailOutboxLockTimeout,
+	emailOutboxMaxAttempts,
+	emailOutboxRetryBaseSeconds,
+	emailOutboxRetryMaxSeconds,
+	secretMask,
+	systemEmailTemplateNames
+} from "@/core/constants";
+import PaginationManager from "@/core/pagination";
+import { AUDIT_ACTION_LIST, EMAIL_OUTBOX_STATUS_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type { EmailOutboxSchemaType } from "@/databases/drizzle/types";
+import { sendEmailWithTemplate } from "@/mailer/service";
+import { emailOutbox } from "@/models/drizzle/emailOutbox.model";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+/**
+ * A templated email to send in the background
+ */
+export interface EmailOutboxMessage {
+	templateName: string;
+	emailConfigName?: string; // The default configuration is used when omitted
+	to: string;
+	templateData?: Record<string, unknown>;
+	subject?: string; // Optional override for subject
+}
+
+/**
+ * The outcome of one worker run
+ */
+export interface EmailOutboxBatchResult {
+	sent: number;
+	retried: number;
+	dead: number;
+}
+
+/**
+ * Hide the one-time codes and links in the data of a system email before it is returned to a client
+ *
+ * @param message
+ */
+export function maskEmailOutboxSecrets(message: EmailOutboxSchemaType): EmailOutboxSchemaType {
+	if (!message.templateData || !systemEmailTemplateNames.includes(message.templateName)) {
+		return message;
+	}
+
+	return {
+		...message,
+		templateData: Object.fromEntries(
+			Object.keys(message.templateData).map(key => [key, secretMask])
+		)
+	};
+}
+
+export default class EmailOutboxService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof emailOutbox>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(emailOutbox);
+	}
+
+	/**
+	 * Queue an email for the background worker
+	 * Set a transaction with `setTransaction` so that the email is only sent once it commits
+	 * The template and configuration are resolved for the organization set with `setOrganization`
+	 *
+	 * @param message
+	 */
+	async enqueue(message: EmailOutboxMessage): Promise<EmailOutboxSchemaType> {
+		return this.getDb()
+			.insert(emailOutbox)
+			.values({ ...message, organizationId: this.getOrganizationId() })
+			.returning()
+			.then(rows => rows[0]);
+	}
+
+	/**
+	 * Claim a batch of due messages and send them, failed sends are retried with an exponential
+	 * back-off until they run out of attempts
+	 * Claims skip rows locked by other workers, so that several servers can share the outbox
+	 */
+	async processBatch(limit: number = emailOutboxBatchSize): Promise<EmailOutboxBatchResult> {
+		const result: EmailOutboxBatchResult = { sent: 0, retried: 0, dead: 0 };
+
+		for (const message of await this.claim(limit)) {
+			try {
+				await sendEmailWithTemplate({
+					emailTemplateService: new EmailTemplateService().setOrganization(message.organizationId),
+					emailService: new EmailService().setOrganization(message.organizationId),
+					emailLogService: new EmailLogService().setOrganization(message.organizationId),
+					templateName: message.templateName,
+					emailConfigName: message.emailConfigName ?? undefined,
+					to: message.to,
+					templateData: message.templateData ?? undefined,
+					subject: message.subject ?? undefined,
+					outboxId: message.id
+				});
+
+				await this.getDb()
+					.update(emailOutbox)
+					.set({
+						status: EMAIL_OUTBOX_STATUS_LIST.SENT,
+						// The data is only needed to send, and may carry one-time codes and links
+						templateData: null,
+						sentAt: new Date(),
+						lockedAt: null,
+						lastError: null
+					})
+					.where(eq(emailOutbox.id, message.id));
+
+				result.sent++;
+			} catch (error) {
+				const dead = message.attempts >= emailOutboxMaxAttempts;
+
+				await this.getDb()
+					.update(emailOutbox)
+					.set({
+						status: dead ? EMAIL_OUTBOX_STATUS_LIST.DEAD : EMAIL_OUTBOX_STATUS_LIST.PENDING,
+						nextAttemptAt: this.nextAttemptAt(message.attempts),
+						lockedAt: null,
+						lastError: error instanceof Error ? error.message : String(error)
+					})
+					.where(eq(emailOutbox.id, message.id));
+
+				if (dead) result.dead++;
+				else result.retried++;
+			}
+		}
+
+		return result;
+	}
+
+	async retrieve(
+		filter: EmailOutboxQuerySchemaType
+	): Promise<ServiceApiResponse<EmailOutboxSchemaType[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			// Create date objects from string inputs if they exist
+			const fromDate = filter.from ? new Date(filter.from) : undefined;
+			const toDate = filter.to ? new Date(filter.to) : undefined;
+
+			// If toDate exists, set it to the end of the day
+			if (toDate) {
+				toDate.setHours(23, 59, 59, 999);
+			}
+
+			const conditions = [
+				filter.search
+					? or(
+							ilike(emailOutbox.to, `%${filter.search}%`),
+							ilike(emailOutbox.templateName, `%${filter.search}%`),
+							ilike(emailOutbox.lastError, `%${filter.search}%`)
+						)
+					: undefined,
+				filter.status ? eq(emailOutbox.status, filter.status) : undefined,
+				filter.templateName ? eq(emailOutbox.templateName, filter.templateName) : undefined,
+				fromDate ? gte(emailOutbox.createdAt, fromDate) : undefined,
+				toDate ? lte(emailOutbox.createdAt, toDate) : undefined
+			].filter(Boolean);
+
+			const whereClause = this.scopedWhere(emailOutbox, ...conditions);
+
+			if (!filter.page || !filter.limit) {
+				const data = await this.getDb().query.emailOutbox.findMany({
+					where: whereClause,
+					orderBy
+				});
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"Outbox messages retrieved successfully",
+					data
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(emailOutbox)
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await this.getDb().query.emailOutbox.findMany({
+				where: whereClause,
+				limit: filter.limit,
+				offset,
+				orderBy
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Outbox messages retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveOne(id: number): Promise<ServiceApiResponse<EmailOutboxSchemaType>> {
+		try {
+			const data = await this.getDb().query.emailOutbox.findFirst({
+				where: this.scopedWhere(emailOutbox, eq(emailOutbox.id, id))
+			});
+
+			if (!data) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.NOT_FOUND,
+					"Outbox message not found"
+				);
+			}
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Outbox message retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Give a dead letter a fresh set of attempts, starting right away
+	 *
+	 * @param id
+	 * @param client
+	 */
+	async requeue(
+		id: number,
+		client: AuditContext
+	): Promise<ServiceApiResponse<EmailOutboxSchemaType>> {
+		try {
+			const { data: message } = await this.retrieveOne(id);
+
+			if (message.status !== EMAIL_OUTBOX_STATUS_LIST.DEAD) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Only failed messages can be requeued"
+				);
+			}
+
+			const [data] = await this.requeueWhere(eq(emailOutbox.id, id));
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.EMAIL_OUTBOX_REQUEUED,
+				targetType: "email_outbox",
+				targetId: id,
+				metadata: { templateName: message.templateName, to: message.to }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Outbox message requeued successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Requeue every dead letter, e.g. once a broken email configuration is fixed
+	 *
+	 * @param client
+	 */
+	async requeueAll(client: AuditContext): Promise<ServiceApiResponse<{ requeued: number }>> {
+		try {
+			const requeued = await this.requeueWhere(
+				eq(emailOutbox.status, EMAIL_OUTBOX_STATUS_LIST.DEAD)
+			);
+
+			if (requeued.length > 0) {
+				await new AuditService().record(client, {
+					action: AUDIT_ACTION_LIST.EMAIL_OUTBOX_REQUEUED,
+					targetType: "email_outbox",
+					metadata: { ids: requeued.map(message => message.id) }
+				});
+			}
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Outbox messages requeued successfully",
+				{ requeued: requeued.length }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Lock due messages along with the ones whose worker died mid-send, and count the attempt
+	 * The worker serves every organization, so claims are not scoped
+	 *
+	 * @param limit
+	 */
+	private async claim(limit: number): Promise<EmailOutboxSchemaType[]> {
+		return this.db.transaction(async tx => {
+			const now = new Date();
+
+			const due = await tx
+				.select({ id: emailOutbox.id })
+				.from(emailOutbox)
+				.where(
+					or(
+						and(
+							eq(emailOutbox.status, EMAIL_OUTBOX_STATUS_LIST.PENDING),
+							lte(emailOutbox.nextAttemptAt, now)
+						),
+						and(
+							eq(emailOutbox.status, EMAIL_OUTBOX_STATUS_LIST.SENDING),
+							lt(emailOutbox.lockedAt, new Date(now.getTime() - emailOutboxLockTimeout))
+						)
+					)
+				)
+				.orderBy(emailOutbox.nextAttemptAt)
+				.limit(limit)
+				.for("update", { skipLocked: true });
+
+			if (due.length === 0) return [];
+
+			return tx
+				.update(emailOutbox)
+				.set({
+					status: EMAIL_OUTBOX_STATUS_LIST.SENDING,
+					lockedAt: now,
+					attempts: sql`${emailOutbox.attempts} + 1`
+				})
+				.where(
+					inArray(
+						emailOutbox.id,
+						due.map(message => message.id)
+					)
+				)
+				.returning();
+		});
+	}
+
+	private async requeueWhere(where: SQL | undefined): Promise<EmailOutboxSchemaType[]> {
+		return this.getDb()
+			.update(emailOutbox)
+			.set({
+				status: EMAIL_OUTBOX_STATUS_LIST.PENDING,
+				attempts: 0,
+				nextAttemptAt: new Date(),
+				lockedAt: null
+			})
+			.where(this.scopedWhere(emailOutbox, where))
+			.returning();
+	}
+
+	// Wait twice as long after every failed attempt, up to `emailOutboxRetryMaxSeconds`
+	private nextAttemptAt(attempts: number): Date {
+		const seconds = Math.min(
+			emailOutboxRetryBaseSeconds * 2 ** Math.max(attempts - 1, 0),
+			emailOutboxRetryMaxSeconds
+		);
+
+		return new Date(Date.now() + seconds * 1000);
+	}
+}
@@ -0,0 +1,28 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { EMAIL_OUTBOX_STATUS_LIST } from "@/databases/drizzle/lists";
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import { validateEnum, validateString } from "@/validators/commonRules";
+
+export const emailOutboxQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data),
+			status: data.status,
+			templateName: data.templateName
+		}),
+		z.object({
+			...baseQuerySchemaShape,
+			status: validateEnum("Status", EMAIL_OUTBOX_STATUS_LIST.enumValues).optional(),
+			templateName: validateString("Template Name", { max: 255 }).optional()
+		})
+	);
+};
+
+export type EmailOutboxQuerySchemaType = z.infer<ReturnType<typeof emailOutboxQuerySchema>>;
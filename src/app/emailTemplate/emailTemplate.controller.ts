@@ -0,0 +1,176 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import { auditContext } from "@/app/audit/audit.service";
+import EmailTemplateService from "@/app/emailTemplate/emailTemplate.service";
+import {
+	emailTemplateCreateSchema,
+	emailTemplateDiffQuerySchema,
+	emailTemplatePreviewQuerySchema,
+	emailTemplatePreviewSchema,
+	emailTemplateQuerySchema,
+	emailTemplateTestSendSchema,
+	emailTemplateUpdateSchema
+} from "@/app/emailTemplate/emailTemplate.validators";
+
+import { ApiController, type ApiCrudController } from "@/core/controller";
+import { emailTemplates } from "@/models/drizzle/emailTemplate.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class EmailTemplateController extends ApiController implements ApiCrudController {
+	private readonly sortingHelper: SortingHelper<typeof emailTemplates>;
+	protected readonly emailTemplateService: EmailTemplateService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sortingHelper = new SortingHelper(emailTemplates);
+		// Templates of the organization the request targets, global ones otherwise
+		this.emailTemplateService = new EmailTemplateService().setOrganization(
+			request.organization?.id
+		);
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = emailTemplateQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailTemplateService.retrieve(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async create(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = emailTemplateCreateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailTemplateService.create(check.data, auditContext(this.request));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async show(): Promise<Response> {
+		const data = await this.emailTemplateService.retrieveOne(this.request.params.name);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async update(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = emailTemplateUpdateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailTemplateService.update(
+			this.request.params.name,
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async delete(): Promise<Response> {
+		const data = await this.emailTemplateService.delete(
+			this.request.params.name,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async versions(): Promise<Response> {
+		const data = await this.emailTemplateService.retrieveVersions(this.request.params.name);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async showVersion(): Promise<Response> {
+		const { name, version } = this.request.params;
+
+		if (isNaN(Number(version))) return this.apiResponse.badResponse("Version must be a number");
+
+		const data = await this.emailTemplateService.retrieveVersion(name, Number(version));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async diff(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = emailTemplateDiffQuerySchema.safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailTemplateService.diff(this.request.params.name, check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async rollback(): Promise<Response> {
+		const { name, version } = this.request.params;
+
+		if (isNaN(Number(version))) return this.apiResponse.badResponse("Version must be a number");
+
+		const data = await this.emailTemplateService.rollback(
+			name,
+			Number(version),
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async preview(): Promise<Response> {
+		const { body, query } = this.request;
+
+		const queryCheck = emailTemplatePreviewQuerySchema.safeParse(query);
+		if (!queryCheck.success) {
+			return this.apiResponse.badResponse(
+				queryCheck.error.issues.map(err => err.message).join(" ")
+			);
+		}
+
+		const check = emailTemplatePreviewSchema.safeParse(body ?? {});
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailTemplateService.preview(this.request.params.name, check.data);
+
+		if (queryCheck.data.format === "html") {
+			return this.response.status(StatusCodes.OK).type("html").send(data.data.html);
+		}
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async testSend(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = emailTemplateTestSendSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.emailTemplateService.testSend(this.request.params.name, check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
@@ -0,0 +1,109 @@
+import express, { Router } from "express";
+
+import { isAuthenticated } from "@/app/auth/auth.middleware";
+import EmailTemplateController from "@/app/emailTemplate/emailTemplate.controller";
+import {
+	requireOrganizationPermission,
+	resolveOrganization
+} from "@/app/organization/organization.middleware";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const emailTemplateRouter: Router = (() => {
+	const router = express.Router();
+
+	const requireEmailWrite = requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE);
+
+	// Within an organization, its owners and administrators stand in for the global permissions
+	router.use(isAuthenticated, resolveOrganization);
+
+	router
+		.route("")
+		.get(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailTemplateController(req, res).index();
+			})
+		)
+		.post(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailTemplateController(req, res).create();
+			})
+		);
+
+	router
+		.route("/:name")
+		.get(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailTemplateController(req, res).show();
+			})
+		)
+		// Saves a new version
+		.put(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailTemplateController(req, res).update();
+			})
+		)
+		.delete(
+			requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new EmailTemplateController(req, res).delete();
+			})
+		);
+
+	router.route("/:name/versions").get(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailTemplateController(req, res).versions();
+		})
+	);
+
+	// Compare two versions, e.g. `?from=2&to=3`, or a version with the active one
+	router.route("/:name/diff").get(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailTemplateController(req, res).diff();
+		})
+	);
+
+	router.route("/:name/versions/:version").get(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailTemplateController(req, res).showVersion();
+		})
+	);
+
+	// Restore a previous version as the active one
+	router.route("/:name/versions/:version/rollback").post(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailTemplateController(req, res).rollback();
+		})
+	);
+
+	// Render with sample data, as HTML with `?format=html`
+	// Previewing unsaved content renders a template of the caller's own, which takes write access
+	router.route("/:name/preview").post(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ),
+		(req, res, next) =>
+			req.body?.subject !== undefined || req.body?.html !== undefined
+				? requireEmailWrite(req, res, next)
+				: next(),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailTemplateController(req, res).preview();
+		})
+	);
+
+	router.route("/:name/test-send").post(
+		requireOrganizationPermission(PERMISSION_LIST.EMAIL_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new EmailTemplateController(req, res).testSend();
+		})
+	);
+
+	return router;
+})();
@@ -1,18 +1,94 @@
-import { eq } from "drizzle-orm";
+import { type Change, diffLines, diffWords } from "diff";
+import { and, count, desc, eq, gte, ilike, lte, or, sql } from "drizzle-orm";
 import { StatusCodes } from "http-status-codes";
 
-import DrizzleService from "@/databases/drizzle/service";
-import type { EmailTemplateSchemaType } from "@/databases/drizzle/types";
+import AuditService, { type AuditContext, auditChanges } from "@/app/audit/audit.service";
+import EmailService from "@/app/email/email.service";
+import EmailLogService from "@/app/emailLog/emailLog.service";
+import type {
+	EmailTemplateCreateSchemaType,
+	EmailTemplateDiffQuerySchemaType,
+	EmailTemplatePreviewSchemaType,
+	EmailTemplateQuerySchemaType,
+	EmailTemplateTestSendSchemaType,
+	EmailTemplateUpdateSchemaType
+} from "@/app/emailTemplate/emailTemplate.validators";
+
+import { systemEmailTemplateNames } from "@/core/constants";
+import PaginationManager from "@/core/pagination";
+import { AUDIT_ACTION_LIST, EMAIL_LOG_STATUS_LIST } from "@/databases/drizzle/lists";
+import DrizzleService, { type DrizzleTransaction } from "@/databases/drizzle/service";
+import type {
+	EmailTemplateSchemaType,
+	EmailTemplateVersionSchemaType
+} from "@/databases/drizzle/types";
+import { renderEmailSubject, renderEmailTemplate } from "@/mailer/config";
+import { EmailTransportRegistry } from "@/mailer/transports";
 import { emailTemplates } from "@/models/drizzle/emailTemplate.model";
+import { emailTemplateVersions } from "@/models/drizzle/emailTemplateVersion.model";
 import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+// Listed without the HTML, which only a single version returns
+export type EmailTemplateVersionSummary = Omit<EmailTemplateVersionSchemaType, "html">;
+
+export interface EmailTemplateChange {
+	type: "added" | "removed" | "unchanged";
+	value: string;
+}
+
+/**
+ * The changes between two versions of a template
+ * The subject is compared word by word and the HTML line by line
+ */
+export interface EmailTemplateDiff {
+	from: number;
+	to: number;
+	subject: EmailTemplateChange[];
+	html: EmailTemplateChange[];
+}
+
+export interface EmailTemplatePreview {
+	subject: string;
+	html: string;
+	size: number; // Size of the rendered HTML in bytes
+}
+
+export interface EmailTemplateTestSendResult {
+	to: string;
+	emailConfigName: string;
+	messageId?: string;
+	response?: string; // The final reply of the SMTP server
+}
+
+function templateChanges(changes: Change[]): EmailTemplateChange[] {
+	return changes.map(change => ({
+		type: change.added ? "added" : change.removed ? "removed" : "unchanged",
+		value: change.value
+	}));
+}
 
 export default class EmailTemplateService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof emailTemplates>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(emailTemplates);
+	}
+
+	/**
+	 * Retrieve a template by name
+	 * The template of the current organization is preferred over the global one
+	 *
+	 * @param name
+	 */
 	async retrieveEmailTemplate(
 		name: string
 	): Promise<ServiceApiResponse<EmailTemplateSchemaType | null>> {
 		try {
 			const template = await this.getDb().query.emailTemplates.findFirst({
-				where: eq(emailTemplates.name, name)
+				where: and(eq(emailTemplates.name, name), this.tenantOrGlobalScope(emailTemplates)),
+				orderBy: this.tenantPriority(emailTemplates)
 			});
 
 			if (!template) {
@@ -32,4 +108,536 @@ export default class EmailTemplateService extends DrizzleService {
 			return ServiceResponse.createErrorResponse(error);
 		}
 	}
+
+	async retrieve(
+		filter: EmailTemplateQuerySchemaType
+	): Promise<ServiceApiResponse<EmailTemplateSchemaType[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			// Create date objects from string inputs if they exist
+			const fromDate = filter.from ? new Date(filter.from) : undefined;
+			const toDate = filter.to ? new Date(filter.to) : undefined;
+
+			// If toDate exists, set it to the end of the day
+			if (toDate) {
+				toDate.setHours(23, 59, 59, 999);
+			}
+
+			const conditions = [
+				filter.search
+					? or(
+							ilike(emailTemplates.name, `%${filter.search}%`),
+							ilike(emailTemplates.subject, `%${filter.search}%`)
+						)
+					: undefined,
+				this.tenantScope(emailTemplates),
+				fromDate ? gte(emailTemplates.createdAt, fromDate) : undefined,
+				toDate ? lte(emailTemplates.createdAt, toDate) : undefined
+			].filter(Boolean);
+
+			const whereClause = and(...conditions);
+
+			if (!filter.page || !filter.limit) {
+				const data = await this.getDb().query.emailTemplates.findMany({
+					where: whereClause,
+					orderBy
+				});
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"Email templates retrieved successfully",
+					data
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(emailTemplates)
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await this.getDb().query.emailTemplates.findMany({
+				where: whereClause,
+				limit: filter.limit,
+				offset,
+				orderBy
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email templates retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Retrieve a template of the current organization, or a global one, by name
+	 * Unlike `retrieveEmailTemplate`, a global template is not returned for an organization
+	 *
+	 * @param name
+	 */
+	async retrieveOne(name: string): Promise<ServiceApiResponse<EmailTemplateSchemaType>> {
+		try {
+			const data = await this.getDb().query.emailTemplates.findFirst({
+				where: and(eq(emailTemplates.name, name), this.tenantScope(emailTemplates))
+			});
+
+			if (!data) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.NOT_FOUND,
+					"Email template not found"
+				);
+			}
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Create a template, recorded as its first version
+	 *
+	 * @param data
+	 * @param client
+	 */
+	async create(
+		data: EmailTemplateCreateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<EmailTemplateSchemaType>> {
+		try {
+			await this.assertUniqueName(data.name);
+
+			const template = await this.db.transaction(async tx => {
+				const template = await tx
+					.insert(emailTemplates)
+					.values({ ...data, organizationId: this.getOrganizationId() })
+					.returning()
+					.then(rows => rows[0]);
+
+				await tx.insert(emailTemplateVersions).values({
+					templateId: template.id,
+					version: template.version,
+					subject: template.subject,
+					html: template.html,
+					createdById: client.actorId
+				});
+
+				return template;
+			});
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.EMAIL_TEMPLATE_CREATED,
+				targetType: "email_template",
+				targetId: template.id,
+				metadata: { name: template.name }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.CREATED,
+				"Email template created successfully",
+				template
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Save a new version of a template, which becomes the active one
+	 *
+	 * @param name
+	 * @param data
+	 * @param client
+	 */
+	async update(
+		name: string,
+		data: EmailTemplateUpdateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<EmailTemplateSchemaType>> {
+		try {
+			const { data: existing } = await this.retrieveOne(name);
+
+			const template = await this.db.transaction(tx =>
+				this.saveVersion(tx, existing.id, data, client.actorId)
+			);
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.EMAIL_TEMPLATE_UPDATED,
+				targetType: "email_template",
+				targetId: template.id,
+				changes: auditChanges(existing, template)
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template updated successfully",
+				template
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Delete a template along with its versions
+	 * Organization templates fall back to the global template of the same name
+	 *
+	 * @param name
+	 * @param client
+	 */
+	async delete(name: string, client: AuditContext): Promise<ServiceApiResponse<null>> {
+		try {
+			const { data: existing } = await this.retrieveOne(name);
+
+			if (existing.organizationId === null && systemEmailTemplateNames.includes(existing.name)) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.CONFLICT,
+					"The template is sent by the application and cannot be deleted"
+				);
+			}
+
+			await this.getDb().delete(emailTemplates).where(eq(emailTemplates.id, existing.id));
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.EMAIL_TEMPLATE_DELETED,
+				targetType: "email_template",
+				targetId: existing.id,
+				metadata: { name: existing.name, version: existing.version }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template deleted successfully",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveVersions(name: string): Promise<ServiceApiResponse<EmailTemplateVersionSummary[]>> {
+		try {
+			const { data: template } = await this.retrieveOne(name);
+
+			const data = await this.getDb().query.emailTemplateVersions.findMany({
+				where: eq(emailTemplateVersions.templateId, template.id),
+				columns: { html: false },
+				orderBy: desc(emailTemplateVersions.version)
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template versions retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveVersion(
+		name: string,
+		version: number
+	): Promise<ServiceApiResponse<EmailTemplateVersionSchemaType>> {
+		try {
+			const { data: template } = await this.retrieveOne(name);
+
+			const data = await this.findVersion(template.id, version);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template version retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Compare a version of a template with another one, or with the active version
+	 *
+	 * @param name
+	 * @param filter
+	 */
+	async diff(
+		name: string,
+		filter: EmailTemplateDiffQuerySchemaType
+	): Promise<ServiceApiResponse<EmailTemplateDiff>> {
+		try {
+			const { data: template } = await this.retrieveOne(name);
+
+			const from = await this.findVersion(template.id, filter.from);
+			const to = filter.to ? await this.findVersion(template.id, filter.to) : template;
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template versions compared successfully",
+				{
+					from: from.version,
+					to: to.version,
+					subject: templateChanges(diffWords(from.subject, to.subject)),
+					html: templateChanges(diffLines(from.html, to.html))
+				}
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Restore a previous version of a template
+	 * The restored content is saved as a new version, so that the history is never rewritten
+	 *
+	 * @param name
+	 * @param version
+	 * @param client
+	 */
+	async rollback(
+		name: string,
+		version: number,
+		client: AuditContext
+	): Promise<ServiceApiResponse<EmailTemplateSchemaType>> {
+		try {
+			const { data: existing } = await this.retrieveOne(name);
+
+			if (existing.version === version) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					`Version ${version} is already the active version`
+				);
+			}
+
+			const restored = await this.findVersion(existing.id, version);
+
+			const template = await this.db.transaction(tx =>
+				this.saveVersion(tx, existing.id, restored, client.actorId, restored.version)
+			);
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.EMAIL_TEMPLATE_ROLLED_BACK,
+				targetType: "email_template",
+				targetId: template.id,
+				changes: auditChanges(existing, template),
+				metadata: { restoredFrom: restored.version }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template rolled back successfully",
+				template
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Render the template that would be sent, with sample data
+	 *
+	 * @param name
+	 * @param data
+	 */
+	async preview(
+		name: string,
+		data: EmailTemplatePreviewSchemaType
+	): Promise<ServiceApiResponse<EmailTemplatePreview>> {
+		try {
+			const preview = await this.render(name, data);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Email template rendered successfully",
+				preview
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Render the template with sample data and send it right away, bypassing the outbox so that
+	 * delivery errors are reported back
+	 * The attempt is recorded in the delivery log like any other send
+	 *
+	 * @param name
+	 * @param data
+	 */
+	async testSend(
+		name: string,
+		data: EmailTemplateTestSendSchemaType
+	): Promise<ServiceApiResponse<EmailTemplateTestSendResult>> {
+		try {
+			const preview = await this.render(name, data);
+
+			const emailService = new EmailService().setOrganization(this.getOrganizationId());
+			const { data: config } = data.emailConfigName
+				? await emailService.retrieveOneByConfigName(data.emailConfigName)
+				: await emailService.retrieveDefault();
+
+			if (!config) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.NOT_FOUND,
+					"Email configuration not found"
+				);
+			}
+
+			const startedAt = Date.now();
+
+			const result = await EmailTransportRegistry.get(config).sendEmail({
+				to: data.to,
+				subject: preview.subject,
+				html: preview.html,
+				from: config.fromEmail,
+				name: config.fromName
+			});
+
+			await new EmailLogService().setOrganization(this.getOrganizationId()).record({
+				status: result.success ? EMAIL_LOG_STATUS_LIST.SENT : EMAIL_LOG_STATUS_LIST.FAILED,
+				templateName: name,
+				emailConfigName: config.emailConfigName,
+				recipients: [data.to],
+				subject: preview.subject,
+				html: preview.html,
+				size: preview.size,
+				messageId: result.messageId,
+				smtpResponse: result.response,
+				error: result.error,
+				durationMs: Date.now() - startedAt
+			});
+
+			if (!result.success) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_GATEWAY,
+					`Failed to send the test email: ${result.error}`
+				);
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Test email sent successfully", {
+				to: data.to,
+				emailConfigName: config.emailConfigName,
+				messageId: result.messageId,
+				response: result.response
+			});
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Render the template sent for a name, the organization one being preferred over the global one
+	 * Rendering errors, such as a missing helper, are reported as invalid requests
+	 */
+	private async render(
+		name: string,
+		data: EmailTemplatePreviewSchemaType
+	): Promise<EmailTemplatePreview> {
+		const { data: template } = await this.retrieveEmailTemplate(name);
+
+		if (!template) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.NOT_FOUND,
+				"Email template not found"
+			);
+		}
+
+		try {
+			const subject = renderEmailSubject(data.subject ?? template.subject, data.data);
+			const html = renderEmailTemplate(data.html ?? template.html, data.data);
+
+			return { subject, html, size: Buffer.byteLength(html) };
+		} catch (error) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.BAD_REQUEST,
+				`Failed to render template: ${error instanceof Error ? error.message : String(error)}`
+			);
+		}
+	}
+
+	/**
+	 * Make the given content the active version of a template and record it in the history
+	 * The version is incremented by the update itself, so that concurrent saves cannot share one
+	 */
+	private async saveVersion(
+		tx: DrizzleTransaction,
+		templateId: number,
+		content: Pick<EmailTemplateSchemaType, "subject" | "html">,
+		createdById?: number,
+		restoredFrom?: number
+	): Promise<EmailTemplateSchemaType> {
+		const template = await tx
+			.update(emailTemplates)
+			.set({
+				subject: content.subject,
+				html: content.html,
+				version: sql`${emailTemplates.version} + 1`
+			})
+			.where(eq(emailTemplates.id, templateId))
+			.returning()
+			.then(rows => rows[0]);
+
+		await tx.insert(emailTemplateVersions).values({
+			templateId,
+			version: template.version,
+			subject: template.subject,
+			html: template.html,
+			restoredFrom,
+			createdById
+		});
+
+		return template;
+	}
+
+	private async findVersion(
+		templateId: number,
+		version: number
+	): Promise<EmailTemplateVersionSchemaType> {
+		const data = await this.getDb().query.emailTemplateVersions.findFirst({
+			where: and(
+				eq(emailTemplateVersions.templateId, templateId),
+				eq(emailTemplateVersions.version, version)
+			)
+		});
+
+		if (!data) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.NOT_FOUND,
+				"Email template version not found"
+			);
+		}
+
+		return data;
+	}
+
+	private async assertUniqueName(name: string): Promise<void> {
+		const existing = await this.getDb().query.emailTemplates.findFirst({
+			where: and(eq(emailTemplates.name, name), this.tenantScope(emailTemplates)),
+			columns: { id: true }
+		});
+
+		if (existing) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.CONFLICT,
+				"An email template with this name already exists"
+			);
+		}
+	}
 }
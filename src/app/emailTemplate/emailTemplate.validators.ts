@@ -0,0 +1,100 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import Handlebars from "handlebars";
+import { z } from "zod";
+
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import {
+	validateEmail,
+	validateEnum,
+	validatePositiveNumber,
+	validateString
+} from "@/validators/commonRules";
+
+/**
+ * A Handlebars template, compiled on validation so that syntax errors are reported on save
+ * rather than when the email is sent
+ *
+ * @param name
+ */
+const validateHandlebars = (name: string) =>
+	validateString(name, { min: 1 }).superRefine((value, ctx) => {
+		try {
+			Handlebars.precompile(value);
+		} catch (error) {
+			// Parse errors quote the source in between their first and last lines
+			const lines = (error instanceof Error ? error.message : String(error)).split("\n");
+			const reason = lines.length > 1 ? `${lines[0]} ${lines[lines.length - 1]}` : lines[0];
+			ctx.addIssue({ code: "custom", message: `${name} is not a valid template: ${reason}.` });
+		}
+	});
+
+export const emailTemplateQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data)
+		}),
+		z.object({
+			...baseQuerySchemaShape
+		})
+	);
+};
+
+export const emailTemplateUpdateSchema = z.object({
+	subject: validateHandlebars("Subject"),
+	html: validateHandlebars("HTML")
+});
+
+export const emailTemplateCreateSchema = emailTemplateUpdateSchema.extend({
+	// Referenced by name from code, e.g. `password_reset`
+	name: validateString("Name", {
+		min: 1,
+		max: 255,
+		regex: /^[a-z0-9_-]+$/,
+		regexMsg: "Name must contain lowercase letters, digits, underscores and hyphens only"
+	})
+});
+
+// Compares a version with another one, or with the active version when `to` is omitted
+export const emailTemplateDiffQuerySchema = z.preprocess(
+	(data: any) => ({
+		from: data.from ? Number(data.from) : undefined,
+		to: data.to ? Number(data.to) : undefined
+	}),
+	z.object({
+		from: validatePositiveNumber("From"),
+		to: validatePositiveNumber("To").optional()
+	})
+);
+
+/**
+ * Sample data to render a template with
+ * The subject and HTML replace the stored ones, to try out changes before saving them
+ */
+export const emailTemplatePreviewSchema = z.object({
+	data: z.record(z.string(), z.any()).optional(),
+	subject: validateHandlebars("Subject").optional(),
+	html: validateHandlebars("HTML").optional()
+});
+
+// The rendered HTML is returned as is, or in a JSON envelope along with the subject
+export const emailTemplatePreviewQuerySchema = z.object({
+	format: validateEnum("Format", ["json", "html"]).default("json")
+});
+
+export const emailTemplateTestSendSchema = emailTemplatePreviewSchema.extend({
+	to: validateEmail,
+	// The default configuration is used when omitted
+	emailConfigName: validateString("Email Config Name", { min: 1, max: 255 }).optional()
+});
+
+export type EmailTemplateQuerySchemaType = z.infer<ReturnType<typeof emailTemplateQuerySchema>>;
+export type EmailTemplateCreateSchemaType = z.infer<typeof emailTemplateCreateSchema>;
+export type EmailTemplateUpdateSchemaType = z.infer<typeof emailTemplateUpdateSchema>;
+export type EmailTemplateDiffQuerySchemaType = z.infer<typeof emailTemplateDiffQuerySchema>;
+export type EmailTemplatePreviewSchemaType = z.infer<typeof emailTemplatePreviewSchema>;
+export type EmailTemplateTestSendSchemaType = z.infer<typeof emailTemplateTestSendSchema>;
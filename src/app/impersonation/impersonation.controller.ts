@@ -0,0 +1,82 @@
+import type { Request, Response } from "express";
+
+import { auditContext } from "@/app/audit/audit.service";
+import ImpersonationService from "@/app/impersonation/impersonation.service";
+
+import { impersonatedByHeader } from "@/core/constants";
+import { ApiController } from "@/core/controller";
+
+export default class ImpersonationController extends ApiController {
+	protected readonly impersonationService: ImpersonationService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.impersonationService = new ImpersonationService();
+	}
+
+	async start(): Promise<Response> {
+		const { userId } = this.request.params;
+
+		if (isNaN(Number(userId))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const adminId = this.request.user!.id;
+
+		const data = await this.impersonationService.start(
+			adminId,
+			Number(userId),
+			auditContext(this.request)
+		);
+
+		await this.switchUser(data.data);
+
+		this.request.session.impersonator = { userId: adminId, startedAt: Date.now() };
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async stop(): Promise<Response> {
+		const { impersonator } = this.request.session;
+
+		if (!impersonator) return this.apiResponse.badResponse("You are not impersonating a user");
+
+		const data = await this.impersonationService.stop(
+			impersonator.userId,
+			this.request.user!.id,
+			impersonator.startedAt,
+			auditContext(this.request)
+		);
+
+		delete this.request.session.impersonator;
+		this.response.removeHeader(impersonatedByHeader);
+
+		if (data.data) {
+			await this.switchUser(data.data);
+		} else {
+			// The administrator was deactivated or demoted meanwhile, nobody is left to return to
+			await new Promise<void>((resolve, reject) => {
+				this.request.logout(error => (error ? reject(error) : resolve()));
+			});
+		}
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	/**
+	 * Log another user into the current session, keeping its other data
+	 *
+	 * @param user
+	 */
+	protected async switchUser(user: Express.User): Promise<void> {
+		await new Promise<void>((resolve, reject) => {
+			this.request.login(user, { session: true, keepSessionInfo: true }, error =>
+				error ? reject(error) : resolve()
+			);
+		});
+	}
+}
@@ -0,0 +1,32 @@
+import express, { Router } from "express";
+
+import { isAuthenticated, requireRole, requireSession } from "@/app/auth/auth.middleware";
+import ImpersonationController from "@/app/impersonation/impersonation.controller";
+
+import { ROLE_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const impersonationRouter: Router = (() => {
+	const router = express.Router();
+
+	// Impersonation switches the user of the session, so it is only available to sessions
+	router.use(isAuthenticated, requireSession);
+
+	// Return to the administrator session, the impersonated user is not an administrator
+	router.delete(
+		"",
+		asyncErrorHandler(async (req, res) => {
+			await new ImpersonationController(req, res).stop();
+		})
+	);
+
+	router.post(
+		"/:userId",
+		requireRole(ROLE_LIST.ADMIN),
+		asyncErrorHandler(async (req, res) => {
+			await new ImpersonationController(req, res).start();
+		})
+	);
+
+	return router;
+})();
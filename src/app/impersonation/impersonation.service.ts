@@ -0,0 +1,96 @@
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { type AuditContext } from "@/app/audit/audit.service";
+import AuthService from "@/app/auth/auth.service";
+
+import { AUDIT_ACTION_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+
+export default class ImpersonationService extends DrizzleService {
+	/**
+	 * Check that an administrator may impersonate a user and audit the start
+	 * Other administrators cannot be impersonated
+	 *
+	 * @param adminId
+	 * @param userId
+	 * @param client
+	 */
+	async start(
+		adminId: number,
+		userId: number,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			if (adminId === userId) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"You cannot impersonate yourself"
+				);
+			}
+
+			const user = await new AuthService().findSessionUser(userId);
+
+			if (!user) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "User not found");
+			}
+
+			if (user.role === ROLE_LIST.ADMIN) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.FORBIDDEN,
+					"Administrators cannot be impersonated"
+				);
+			}
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.IMPERSONATION_STARTED,
+				targetType: "user",
+				targetId: user.id
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Impersonation started successfully",
+				user
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Audit the end of an impersonation on behalf of the administrator
+	 *
+	 * @param adminId
+	 * @param userId The impersonated user
+	 * @param startedAt When the impersonation started, in milliseconds
+	 * @param client
+	 * @returns The administrator to return to, or null when the account is no longer active
+	 */
+	async stop(
+		adminId: number,
+		userId: number,
+		startedAt: number,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User | null>> {
+		try {
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.IMPERSONATION_STOPPED,
+				actorId: adminId,
+				targetType: "user",
+				targetId: userId,
+				metadata: { durationSeconds: Math.round((Date.now() - startedAt) / 1000) }
+			});
+
+			const admin = await new AuthService().findSessionUser(adminId);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Impersonation stopped successfully",
+				admin?.role === ROLE_LIST.ADMIN ? admin : null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+}
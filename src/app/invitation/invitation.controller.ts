@@ -0,0 +1,106 @@
+import type { Request, Response } from "express";
+
+import { auditContext } from "@/app/audit/audit.service";
+import InvitationService from "@/app/invitation/invitation.service";
+import {
+	invitationAcceptSchema,
+	invitationCreateSchema,
+	invitationQuerySchema,
+	invitationResendSchema
+} from "@/app/invitation/invitation.validators";
+
+import { ApiController } from "@/core/controller";
+import { invitations } from "@/models/drizzle/invitation.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class InvitationController extends ApiController {
+	private readonly sortingHelper: SortingHelper<typeof invitations>;
+	protected readonly invitationService: InvitationService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sortingHelper = new SortingHelper(invitations);
+		this.invitationService = new InvitationService();
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = invitationQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.invitationService.retrieve(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async create(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = invitationCreateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.invitationService.create(
+			this.request.user!,
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async resend(): Promise<Response> {
+		const { body } = this.request;
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Invitation ID must be a number");
+
+		// The body is optional, without it the default expiry is used
+		const check = invitationResendSchema.safeParse(body ?? {});
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.invitationService.resend(
+			this.request.user!,
+			Number(id),
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async revoke(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Invitation ID must be a number");
+
+		const data = await this.invitationService.revoke(Number(id), auditContext(this.request));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async accept(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = invitationAcceptSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.invitationService.accept(check.data, auditContext(this.request));
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
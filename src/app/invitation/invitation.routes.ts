@@ -0,0 +1,64 @@
+import express, { Router } from "express";
+
+import { isAuthenticated, isVerified, requirePermission } from "@/app/auth/auth.middleware";
+import InvitationController from "@/app/invitation/invitation.controller";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+// Invitations sent by administrators
+export const invitationRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated);
+
+	router
+		.route("")
+		.get(
+			requirePermission(PERMISSION_LIST.USER_READ),
+			asyncErrorHandler(async (req, res) => {
+				await new InvitationController(req, res).index();
+			})
+		)
+		// Invitations are sent in the name of the administrator, whose address must be verified
+		.post(
+			requirePermission(PERMISSION_LIST.USER_WRITE),
+			isVerified,
+			asyncErrorHandler(async (req, res) => {
+				await new InvitationController(req, res).create();
+			})
+		);
+
+	router.post(
+		"/:id/resend",
+		requirePermission(PERMISSION_LIST.USER_WRITE),
+		isVerified,
+		asyncErrorHandler(async (req, res) => {
+			await new InvitationController(req, res).resend();
+		})
+	);
+
+	router.delete(
+		"/:id",
+		requirePermission(PERMISSION_LIST.USER_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new InvitationController(req, res).revoke();
+		})
+	);
+
+	return router;
+})();
+
+// Accepting an invitation, for the invitee who has no account yet
+export const invitationAcceptRouter: Router = (() => {
+	const router = express.Router();
+
+	router.post(
+		"/accept",
+		asyncErrorHandler(async (req, res) => {
+			await new InvitationController(req, res).accept();
+		})
+	);
+
+	return router;
+})();
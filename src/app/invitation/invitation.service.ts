@@ -0,0 +1,466 @@
+import { and, count, eq, gt, gte, ilike, isNotNull, isNull, lte, or } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { type AuditContext } from "@/app/audit/audit.service";
+import EmailOutboxService from "@/app/emailOutbox/emailOutbox.service";
+import type {
+	InvitationAcceptSchemaType,
+	InvitationCreateSchemaType,
+	InvitationQuerySchemaType,
+	InvitationResendSchemaType
+} from "@/app/invitation/invitation.validators";
+import LoginAttemptService from "@/app/loginAttempt/loginAttempt.service";
+import VerificationTokenService from "@/app/verificationToken/verificationToken.service";
+
+import { authEmailConfigName, invitationAcceptPath, invitationExpiryDays } from "@/core/constants";
+import PaginationManager from "@/core/pagination";
+import {
+	AUDIT_ACTION_LIST,
+	INVITATION_STATUS_LIST,
+	ROLE_LIST,
+	TOKEN_LIST
+} from "@/databases/drizzle/lists";
+import DrizzleService, { type DrizzleTransaction } from "@/databases/drizzle/service";
+import type { InvitationSchemaType, InvitationStatusType } from "@/databases/drizzle/types";
+import { invitations } from "@/models/drizzle/invitation.model";
+import { users } from "@/models/drizzle/user.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export type InvitationWithStatus = InvitationSchemaType & { status: InvitationStatusType };
+
+/**
+ * The status of an invitation, derived from its timestamps
+ *
+ * @param invitation
+ */
+export function invitationStatus(invitation: InvitationSchemaType): InvitationStatusType {
+	if (invitation.acceptedAt) return INVITATION_STATUS_LIST.ACCEPTED;
+	if (invitation.revokedAt) return INVITATION_STATUS_LIST.REVOKED;
+	if (invitation.expiresAt <= new Date()) return INVITATION_STATUS_LIST.EXPIRED;
+
+	return INVITATION_STATUS_LIST.PENDING;
+}
+
+export default class InvitationService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof invitations>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(invitations);
+	}
+
+	async retrieve(
+		filter: InvitationQuerySchemaType
+	): Promise<ServiceApiResponse<InvitationWithStatus[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			// Create date objects from string inputs if they exist
+			const fromDate = filter.from ? new Date(filter.from) : undefined;
+			const toDate = filter.to ? new Date(filter.to) : undefined;
+
+			// If toDate exists, set it to the end of the day
+			if (toDate) {
+				toDate.setHours(23, 59, 59, 999);
+			}
+
+			const conditions = [
+				filter.search ? ilike(invitations.email, `%${filter.search}%`) : undefined,
+				filter.status ? this.statusCondition(filter.status) : undefined,
+				filter.role ? eq(invitations.role, filter.role) : undefined,
+				fromDate ? gte(invitations.createdAt, fromDate) : undefined,
+				toDate ? lte(invitations.createdAt, toDate) : undefined
+			].filter(Boolean);
+
+			const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+			if (!filter.page || !filter.limit) {
+				const data = await this.getDb().query.invitations.findMany({
+					where: whereClause,
+					orderBy
+				});
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"Invitations retrieved successfully",
+					data.map(invitation => ({ ...invitation, status: invitationStatus(invitation) }))
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(invitations)
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await this.getDb().query.invitations.findMany({
+				where: whereClause,
+				limit: filter.limit,
+				offset,
+				orderBy
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Invitations retrieved successfully",
+				data.map(invitation => ({ ...invitation, status: invitationStatus(invitation) })),
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveOne(id: number): Promise<ServiceApiResponse<InvitationWithStatus>> {
+		try {
+			const data = await this.getDb().query.invitations.findFirst({
+				where: eq(invitations.id, id)
+			});
+
+			if (!data) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "Invitation not found");
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Invitation retrieved successfully", {
+				...data,
+				status: invitationStatus(data)
+			});
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Invite someone by email, the invitation is only stored once the email could be sent
+	 *
+	 * @param actor
+	 * @param data
+	 * @param client
+	 */
+	async create(
+		actor: Express.User,
+		data: InvitationCreateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<InvitationWithStatus>> {
+		try {
+			if (data.role === ROLE_LIST.ADMIN && actor.role !== ROLE_LIST.ADMIN) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.FORBIDDEN,
+					"Only administrators can invite administrators"
+				);
+			}
+
+			const existingUser = await this.getDb().query.users.findFirst({
+				where: eq(users.email, data.email),
+				columns: { id: true }
+			});
+
+			if (existingUser) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.CONFLICT,
+					"Email is already registered"
+				);
+			}
+
+			const pendingInvitation = await this.getDb().query.invitations.findFirst({
+				where: and(
+					eq(invitations.email, data.email),
+					this.statusCondition(INVITATION_STATUS_LIST.PENDING)
+				),
+				columns: { id: true }
+			});
+
+			if (pendingInvitation) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.CONFLICT,
+					"A pending invitation already exists for this email"
+				);
+			}
+
+			const expiryDays = data.expiryDays ?? invitationExpiryDays;
+
+			const invitation = await this.db.transaction(async tx => {
+				const invitation = await tx
+					.insert(invitations)
+					.values({
+						email: data.email,
+						role: data.role,
+						invitedById: actor.id,
+						expiresAt: AppHelpers.OTPExpiry(expiryDays * 24 * 60)
+					})
+					.returning()
+					.then(rows => rows[0]);
+
+				await this.sendInvitation(invitation, actor, expiryDays, tx);
+
+				return invitation;
+			});
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.INVITATION_CREATED,
+				targetType: "invitation",
+				targetId: invitation.id,
+				metadata: { email: invitation.email, role: invitation.role }
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.CREATED, "Invitation sent successfully", {
+				...invitation,
+				status: invitationStatus(invitation)
+			});
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Send a pending or expired invitation again with a new link and expiry
+	 * Links sent before stop working
+	 *
+	 * @param actor
+	 * @param id
+	 * @param data
+	 * @param client
+	 */
+	async resend(
+		actor: Express.User,
+		id: number,
+		data: InvitationResendSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<InvitationWithStatus>> {
+		try {
+			const { data: existing } = await this.retrieveOne(id);
+
+			if (existing.acceptedAt || existing.revokedAt) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					`The invitation has already been ${existing.acceptedAt ? "accepted" : "revoked"}`
+				);
+			}
+
+			const expiryDays = data.expiryDays ?? invitationExpiryDays;
+
+			const invitation = await this.db.transaction(async tx => {
+				const invitation = await tx
+					.update(invitations)
+					.set({ expiresAt: AppHelpers.OTPExpiry(expiryDays * 24 * 60) })
+					.where(eq(invitations.id, id))
+					.returning()
+					.then(rows => rows[0]);
+
+				await this.sendInvitation(invitation, actor, expiryDays, tx);
+
+				return invitation;
+			});
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.INVITATION_RESENT,
+				targetType: "invitation",
+				targetId: id,
+				metadata: { email: invitation.email }
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Invitation resent successfully", {
+				...invitation,
+				status: invitationStatus(invitation)
+			});
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async revoke(id: number, client: AuditContext): Promise<ServiceApiResponse<null>> {
+		try {
+			const { data: existing } = await this.retrieveOne(id);
+
+			if (existing.acceptedAt || existing.revokedAt) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					`The invitation has already been ${existing.acceptedAt ? "accepted" : "revoked"}`
+				);
+			}
+
+			await this.getDb()
+				.update(invitations)
+				.set({ revokedAt: new Date() })
+				.where(eq(invitations.id, id));
+
+			await new VerificationTokenService().revoke(TOKEN_LIST.INVITATION, this.subject(id));
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.INVITATION_REVOKED,
+				targetType: "invitation",
+				targetId: id,
+				metadata: { email: existing.email }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Invitation revoked successfully",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Create the invited account with the password chosen by the invitee
+	 * The link proves ownership of the email address, so the account is created verified
+	 *
+	 * @param data
+	 * @param client
+	 */
+	async accept(
+		data: InvitationAcceptSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			// The invitee is unknown until the token is found, so only the IP address is tracked
+			const loginAttemptService = new LoginAttemptService();
+			const attemptKeys = loginAttemptService.keysFor(client.ip);
+			await loginAttemptService.assertAllowed(attemptKeys);
+
+			// The token is only consumed when the account could be created
+			const { user, invitation } = await this.db.transaction(async tx => {
+				const token = await new VerificationTokenService()
+					.setTransaction(tx)
+					.consume(TOKEN_LIST.INVITATION, data.token);
+
+				const invitation = token
+					? await tx.query.invitations.findFirst({
+							where: eq(invitations.id, this.invitationId(token.subject))
+						})
+					: undefined;
+
+				if (!invitation || invitationStatus(invitation) !== INVITATION_STATUS_LIST.PENDING) {
+					await loginAttemptService.recordFailure(attemptKeys);
+
+					return ServiceResponse.createRejectResponse(
+						StatusCodes.BAD_REQUEST,
+						"Invalid or expired invitation link"
+					);
+				}
+
+				const existingUser = await tx.query.users.findFirst({
+					where: or(eq(users.username, data.username), eq(users.email, invitation.email)),
+					columns: { email: true }
+				});
+
+				if (existingUser) {
+					return ServiceResponse.createRejectResponse(
+						StatusCodes.CONFLICT,
+						existingUser.email === invitation.email
+							? "Email is already registered"
+							: "Username is already taken"
+					);
+				}
+
+				const { password: _, ...user } = await tx
+					.insert(users)
+					.values({
+						name: data.name,
+						username: data.username,
+						email: invitation.email,
+						password: await AppHelpers.hashPassword(data.password),
+						role: invitation.role,
+						emailVerifiedAt: new Date()
+					})
+					.returning()
+					.then(rows => rows[0]);
+
+				await tx
+					.update(invitations)
+					.set({ acceptedAt: new Date(), userId: user.id })
+					.where(eq(invitations.id, invitation.id));
+
+				return { user, invitation };
+			});
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.INVITATION_ACCEPTED,
+				actorId: user.id,
+				targetType: "invitation",
+				targetId: invitation.id,
+				metadata: { userId: user.id, role: user.role }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.CREATED,
+				"Invitation accepted successfully. Please log in with your new password",
+				user
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Issue a new link for the invitation and email it, previous links stop working
+	 */
+	private async sendInvitation(
+		invitation: InvitationSchemaType,
+		actor: Express.User,
+		expiryDays: number,
+		tx: DrizzleTransaction
+	): Promise<void> {
+		const token = await new VerificationTokenService().setTransaction(tx).issue({
+			type: TOKEN_LIST.INVITATION,
+			format: "token",
+			subject: this.subject(invitation.id),
+			expiryMinutes: expiryDays * 24 * 60
+		});
+
+		await new EmailOutboxService().setTransaction(tx).enqueue({
+			templateName: "invitation",
+			emailConfigName: authEmailConfigName,
+			to: invitation.email,
+			templateData: {
+				inviterName: actor.name,
+				role: invitation.role.toLowerCase(),
+				acceptLink: AppHelpers.clientUrl(invitationAcceptPath, { token }),
+				expirationDays: expiryDays
+			}
+		});
+	}
+
+	private statusCondition(status: InvitationStatusType) {
+		const now = new Date();
+
+		switch (status) {
+			case INVITATION_STATUS_LIST.ACCEPTED:
+				return isNotNull(invitations.acceptedAt);
+			case INVITATION_STATUS_LIST.REVOKED:
+				return isNotNull(invitations.revokedAt);
+			case INVITATION_STATUS_LIST.EXPIRED:
+				return and(
+					isNull(invitations.acceptedAt),
+					isNull(invitations.revokedAt),
+					lte(invitations.expiresAt, now)
+				);
+			case INVITATION_STATUS_LIST.PENDING:
+				return and(
+					isNull(invitations.acceptedAt),
+					isNull(invitations.revokedAt),
+					gt(invitations.expiresAt, now)
+				);
+		}
+	}
+
+	private subject(id: number): string {
+		return `invitation:${id}`;
+	}
+
+	private invitationId(subject: string): number {
+		return Number(subject.slice("invitation:".length));
+	}
+}
@@ -0,0 +1,66 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { invitationMaxExpiryDays } from "@/core/constants";
+import { zodMessages } from "@/core/messages";
+import { INVITATION_STATUS_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import {
+	validateConfirmPassword,
+	validateEmail,
+	validateEnum,
+	validatePassword,
+	validatePositiveNumber,
+	validateString,
+	validateUsername
+} from "@/validators/commonRules";
+
+export const invitationQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data),
+			status: data.status,
+			role: data.role
+		}),
+		z.object({
+			...baseQuerySchemaShape,
+			status: validateEnum("Status", INVITATION_STATUS_LIST.enumValues).optional(),
+			role: validateEnum("Role", ROLE_LIST.enumValues).optional()
+		})
+	);
+};
+
+export const invitationCreateSchema = z.object({
+	email: validateEmail,
+	role: validateEnum("Role", ROLE_LIST.enumValues),
+	expiryDays: validatePositiveNumber("Expiry Days")
+		.max(invitationMaxExpiryDays, {
+			message: zodMessages.error.limit.numberMax("Expiry Days", invitationMaxExpiryDays)
+		})
+		.optional()
+});
+
+export const invitationResendSchema = invitationCreateSchema.pick({ expiryDays: true });
+
+export const invitationAcceptSchema = z
+	.object({
+		token: validateString("Token", { min: 1 }),
+		name: validateString("Name", { min: 1, max: 255 }),
+		username: validateUsername,
+		password: validatePassword,
+		confirmPassword: validateConfirmPassword
+	})
+	.refine(data => data.password === data.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"]
+	});
+
+export type InvitationQuerySchemaType = z.infer<ReturnType<typeof invitationQuerySchema>>;
+export type InvitationCreateSchemaType = z.infer<typeof invitationCreateSchema>;
+export type InvitationResendSchemaType = z.infer<typeof invitationResendSchema>;
+export type InvitationAcceptSchemaType = z.infer<typeof invitationAcceptSchema>;
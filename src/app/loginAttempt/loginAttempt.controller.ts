@@ -0,0 +1,56 @@
+import type { Request, Response } from "express";
+
+import AuditService, { auditContext } from "@/app/audit/audit.service";
+import LoginAttemptService from "@/app/loginAttempt/loginAttempt.service";
+
+import { ApiController } from "@/core/controller";
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
+
+export default class LoginAttemptController extends ApiController {
+	protected readonly loginAttemptService: LoginAttemptService;
+	protected readonly auditService: AuditService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.loginAttemptService = new LoginAttemptService();
+		this.auditService = new AuditService();
+	}
+
+	async index(): Promise<Response> {
+		const data = await this.loginAttemptService.retrieve();
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async delete(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("Lockout ID must be a number");
+
+		const data = await this.loginAttemptService.remove(Number(id));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async unlockUser(): Promise<Response> {
+		const { userId } = this.request.params;
+
+		if (isNaN(Number(userId))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const data = await this.loginAttemptService.unlockUser(Number(userId));
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.ACCOUNT_UNLOCKED,
+			targetType: "user",
+			targetId: Number(userId)
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
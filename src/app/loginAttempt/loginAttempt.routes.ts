@@ -0,0 +1,40 @@
+import express, { Router } from "express";
+
+import { isAuthenticated, requirePermission } from "@/app/auth/auth.middleware";
+import LoginAttemptController from "@/app/loginAttempt/loginAttempt.controller";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const loginAttemptRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated);
+
+	// Accounts and IP addresses currently backing off or locked
+	router.get(
+		"",
+		requirePermission(PERMISSION_LIST.USER_READ),
+		asyncErrorHandler(async (req, res) => {
+			await new LoginAttemptController(req, res).index();
+		})
+	);
+
+	router.delete(
+		"/users/:userId",
+		requirePermission(PERMISSION_LIST.USER_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new LoginAttemptController(req, res).unlockUser();
+		})
+	);
+
+	router.delete(
+		"/:id",
+		requirePermission(PERMISSION_LIST.USER_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new LoginAttemptController(req, res).delete();
+		})
+	);
+
+	return router;
+})();
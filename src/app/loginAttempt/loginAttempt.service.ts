@@ -0,0 +1,251 @@
+import { and, desc, eq, gt, inArray, or, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import {
+	accountBackoffThreshold,
+	accountLockoutMaxMinutes,
+	accountLockoutMinutes,
+	accountLockoutThreshold,
+	ipBackoffThreshold,
+	loginAttemptWindowMinutes,
+	loginBackoffBaseSeconds,
+	loginBackoffMaxSeconds
+} from "@/core/constants";
+import { LOGIN_ATTEMPT_SCOPE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type { LoginAttemptSchemaType, LoginAttemptScopeType } from "@/databases/drizzle/types";
+import { loginAttempts } from "@/models/drizzle/loginAttempt.model";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+
+export interface LoginAttemptKey {
+	scope: LoginAttemptScopeType;
+	key: string;
+}
+
+export default class LoginAttemptService extends DrizzleService {
+	/**
+	 * Build the counters a login attempt is tracked against
+	 * Known accounts are keyed by id, so that logging in by username or email shares one counter
+	 * Other identifiers have their own prefix, so that none can pass for the key of an account
+	 *
+	 * @param ip
+	 * @param account The user when it exists, or the identifier that was submitted
+	 */
+	keysFor(ip: string, account?: { id: number } | string): LoginAttemptKey[] {
+		const keys: LoginAttemptKey[] = [{ scope: LOGIN_ATTEMPT_SCOPE_LIST.IP, key: ip }];
+
+		if (account) {
+			keys.push({
+				scope: LOGIN_ATTEMPT_SCOPE_LIST.ACCOUNT,
+				key: typeof account === "string" ? this.identifierKey(account) : this.userKey(account.id)
+			});
+		}
+
+		return keys;
+	}
+
+	/**
+	 * Reject the attempt while any of the counters is backing off or locked
+	 *
+	 * @param keys
+	 */
+	async assertAllowed(keys: LoginAttemptKey[]): Promise<void> {
+		const now = new Date();
+		const rows = await this.findByKeys(keys);
+
+		if (rows.some(row => row.lockedUntil && row.lockedUntil > now)) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.LOCKED,
+				"This account is temporarily locked after too many failed attempts. Check your email to unlock it or try again later"
+			);
+		}
+
+		const blockedUntil = Math.max(...rows.map(row => row.blockedUntil?.getTime() ?? 0));
+		if (blockedUntil > now.getTime()) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.TOO_MANY_REQUESTS,
+				`Too many failed attempts. Please try again in ${Math.ceil((blockedUntil - now.getTime()) / 1000)} seconds`
+			);
+		}
+	}
+
+	/**
+	 * Count a failed attempt against every key, backing off exponentially past the threshold
+	 * and locking the account once too many attempts failed
+	 *
+	 * @param keys
+	 * @returns The lockout duration in minutes when this failure locked the account
+	 */
+	async recordFailure(keys: LoginAttemptKey[]): Promise<{ lockedMinutes: number | null }> {
+		const now = new Date();
+		const windowStart = new Date(now.getTime() - loginAttemptWindowMinutes * 60000);
+		let lockedMinutes: number | null = null;
+
+		for (const { scope, key } of keys) {
+			// Failures outside of the window are forgotten, the count starts over
+			const attempt = await this.getDb()
+				.insert(loginAttempts)
+				.values({ scope, key, failures: 1, lastFailureAt: now })
+				.onConflictDoUpdate({
+					target: [loginAttempts.scope, loginAttempts.key],
+					set: {
+						failures: sql`case when ${loginAttempts.lastFailureAt} < ${windowStart.toISOString()} then 1 else ${loginAttempts.failures} + 1 end`,
+						lastFailureAt: now,
+						updatedAt: now
+					}
+				})
+				.returning()
+				.then(rows => rows[0]);
+
+			if (
+				scope === LOGIN_ATTEMPT_SCOPE_LIST.ACCOUNT &&
+				attempt.failures >= accountLockoutThreshold
+			) {
+				lockedMinutes = Math.min(
+					accountLockoutMinutes * 2 ** attempt.lockouts,
+					accountLockoutMaxMinutes
+				);
+
+				await this.getDb()
+					.update(loginAttempts)
+					.set({
+						failures: 0,
+						lockouts: attempt.lockouts + 1,
+						blockedUntil: null,
+						lockedUntil: new Date(now.getTime() + lockedMinutes * 60000)
+					})
+					.where(eq(loginAttempts.id, attempt.id));
+
+				continue;
+			}
+
+			const threshold =
+				scope === LOGIN_ATTEMPT_SCOPE_LIST.ACCOUNT ? accountBackoffThreshold : ipBackoffThreshold;
+
+			if (attempt.failures >= threshold) {
+				const delaySeconds = Math.min(
+					loginBackoffBaseSeconds * 2 ** (attempt.failures - threshold),
+					loginBackoffMaxSeconds
+				);
+
+				await this.getDb()
+					.update(loginAttempts)
+					.set({ blockedUntil: new Date(now.getTime() + delaySeconds * 1000) })
+					.where(eq(loginAttempts.id, attempt.id));
+			}
+		}
+
+		return { lockedMinutes };
+	}
+
+	/**
+	 * Reset the account counters after a successful login
+	 * IP counters are kept, a valid login must not clear failures made against other accounts
+	 *
+	 * @param keys
+	 */
+	async recordSuccess(keys: LoginAttemptKey[]): Promise<void> {
+		const accountKeys = keys
+			.filter(({ scope }) => scope === LOGIN_ATTEMPT_SCOPE_LIST.ACCOUNT)
+			.map(({ key }) => key);
+
+		if (accountKeys.length === 0) return;
+
+		await this.getDb()
+			.delete(loginAttempts)
+			.where(
+				and(
+					eq(loginAttempts.scope, LOGIN_ATTEMPT_SCOPE_LIST.ACCOUNT),
+					inArray(loginAttempts.key, accountKeys)
+				)
+			);
+	}
+
+	async retrieve(): Promise<ServiceApiResponse<LoginAttemptSchemaType[]>> {
+		try {
+			const now = new Date();
+
+			const data = await this.getDb().query.loginAttempts.findMany({
+				where: or(gt(loginAttempts.lockedUntil, now), gt(loginAttempts.blockedUntil, now)),
+				orderBy: desc(loginAttempts.lastFailureAt)
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Lockouts retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async remove(id: number): Promise<ServiceApiResponse<null>> {
+		try {
+			const removed = await this.getDb()
+				.delete(loginAttempts)
+				.where(eq(loginAttempts.id, id))
+				.returning({ id: loginAttempts.id });
+
+			if (removed.length === 0) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "Lockout not found");
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Lockout removed successfully", null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async unlockUser(userId: number): Promise<ServiceApiResponse<null>> {
+		try {
+			await this.getDb()
+				.delete(loginAttempts)
+				.where(
+					and(
+						eq(loginAttempts.scope, LOGIN_ATTEMPT_SCOPE_LIST.ACCOUNT),
+						eq(loginAttempts.key, this.userKey(userId))
+					)
+				);
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Account unlocked successfully", null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Keys of the accounts that are locked right now, as a subquery to filter users by
+	 * Account keys have the form `user:<id>`
+	 */
+	lockedAccountKeys() {
+		return this.getDb()
+			.select({ key: loginAttempts.key })
+			.from(loginAttempts)
+			.where(
+				and(
+					eq(loginAttempts.scope, LOGIN_ATTEMPT_SCOPE_LIST.ACCOUNT),
+					gt(loginAttempts.lockedUntil, new Date())
+				)
+			);
+	}
+
+	private findByKeys(keys: LoginAttemptKey[]) {
+		return this.getDb().query.loginAttempts.findMany({
+			where: or(
+				...keys.map(({ scope, key }) =>
+					and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key))
+				)
+			)
+		});
+	}
+
+	private userKey(userId: number): string {
+		return `user:${userId}`;
+	}
+
+	// Cut to the length of the key column, identifiers this long are never registered anyway
+	private identifierKey(identifier: string): string {
+		return `identifier:${identifier.toLowerCase()}`.slice(0, 255);
+	}
+}
@@ -0,0 +1,134 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import { auditContext } from "@/app/audit/audit.service";
+import AuthController from "@/app/auth/auth.controller";
+import OAuthService from "@/app/oauth/oauth.service";
+import {
+	oauthCallbackSchema,
+	oauthMockAuthorizeSchema,
+	oauthStateSchema
+} from "@/app/oauth/oauth.validators";
+import { getOAuthProvider, getOAuthProviders } from "@/app/oauth/providers";
+import MockOAuthProvider from "@/app/oauth/providers/mock.provider";
+
+import {
+	oauthErrorPath,
+	oauthStateCookieName,
+	oauthStateTimeout,
+	oauthSuccessPath,
+	twoFactorPath
+} from "@/core/constants";
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
+import AppHelpers from "@/utils/appHelpers";
+import { HttpError } from "@/utils/serviceApi";
+
+// The provider redirects back with a top-level navigation, which Lax cookies survive
+const oauthStateCookieOptions = {
+	httpOnly: true,
+	signed: true,
+	sameSite: "lax",
+	secure: AppHelpers.sameSiteCookieConfig().secure,
+	path: "/auth/oauth"
+} as const;
+
+export default class OAuthController extends AuthController {
+	protected readonly oauthService: OAuthService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.oauthService = new OAuthService();
+	}
+
+	async providers(): Promise<Response> {
+		return this.apiResponse.successResponse(
+			"OAuth providers retrieved successfully",
+			Array.from(getOAuthProviders().keys())
+		);
+	}
+
+	async authorize(): Promise<Response> {
+		const { provider } = this.request.params;
+
+		const { data } = await this.oauthService.createAuthorization(provider);
+
+		this.response.cookie(oauthStateCookieName, data.state, {
+			...oauthStateCookieOptions,
+			maxAge: oauthStateTimeout
+		});
+
+		this.response.redirect(data.authorizationUrl);
+
+		return this.response;
+	}
+
+	async callback(): Promise<Response> {
+		const { provider } = this.request.params;
+
+		const state = oauthStateSchema.safeParse(this.request.signedCookies[oauthStateCookieName]);
+		this.response.clearCookie(oauthStateCookieName, oauthStateCookieOptions);
+
+		// The provider reports a denied consent or any other failure through the query string
+		const check = oauthCallbackSchema.safeParse(this.request.query);
+		if (!check.success) {
+			return this.redirectWithError("Login was cancelled or failed at the provider");
+		}
+
+		try {
+			const data = await this.oauthService.authenticate(provider, check.data, state.data);
+
+			if (this.startTwoFactorLogin(data.data)) {
+				this.response.redirect(AppHelpers.clientUrl(twoFactorPath));
+
+				return this.response;
+			}
+
+			await this.establishSession(data.data, `oauth:${provider}`);
+		} catch (error) {
+			await this.auditService.record(auditContext(this.request), {
+				action: AUDIT_ACTION_LIST.LOGIN_FAILED,
+				metadata: { method: `oauth:${provider}` }
+			});
+
+			return this.redirectWithError(
+				error instanceof HttpError && error.expose ? error.message : "Login failed"
+			);
+		}
+
+		this.response.redirect(AppHelpers.clientUrl(oauthSuccessPath));
+
+		return this.response;
+	}
+
+	async mockAuthorize(): Promise<Response> {
+		const provider = getOAuthProvider("mock");
+
+		if (!(provider instanceof MockOAuthProvider)) {
+			return this.apiResponse.sendResponse({
+				status: StatusCodes.NOT_FOUND,
+				message: "OAuth provider mock is not configured"
+			});
+		}
+
+		const check = oauthMockAuthorizeSchema.safeParse(this.request.query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		this.response.redirect(provider.authorize(check.data));
+
+		return this.response;
+	}
+
+	protected redirectWithError(message: string): Response {
+		this.response.redirect(AppHelpers.clientUrl(oauthErrorPath, { error: message }));
+
+		return this.response;
+	}
+}
@@ -0,0 +1,43 @@
+import express, { Router } from "express";
+
+import OAuthController from "@/app/oauth/oauth.controller";
+
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const oauthRouter: Router = (() => {
+	const router = express.Router();
+
+	// List the configured providers
+	router.get(
+		"",
+		asyncErrorHandler(async (req, res) => {
+			await new OAuthController(req, res).providers();
+		})
+	);
+
+	// Login page of the local mock provider
+	router.get(
+		"/mock/authorize",
+		asyncErrorHandler(async (req, res) => {
+			await new OAuthController(req, res).mockAuthorize();
+		})
+	);
+
+	// Start the authorization code flow, redirects to the provider
+	router.get(
+		"/:provider",
+		asyncErrorHandler(async (req, res) => {
+			await new OAuthController(req, res).authorize();
+		})
+	);
+
+	// The provider redirects back here, then to the client application
+	router.get(
+		"/:provider/callback",
+		asyncErrorHandler(async (req, res) => {
+			await new OAuthController(req, res).callback();
+		})
+	);
+
+	return router;
+})();
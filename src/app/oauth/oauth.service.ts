@@ -0,0 +1,207 @@
+import crypto from "crypto";
+import { and, eq } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import { accountDeactivatedMessage } from "@/app/auth/auth.service";
+import type { OAuthCallbackSchemaType, OAuthStateSchemaType } from "@/app/oauth/oauth.validators";
+import { type OAuthProfile, type OAuthProvider, getOAuthProvider } from "@/app/oauth/providers";
+
+import DrizzleService from "@/databases/drizzle/service";
+import { oauthAccounts } from "@/models/drizzle/oauthAccount.model";
+import { users } from "@/models/drizzle/user.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { sessionStore } from "@/utils/sessionStore";
+
+export interface OAuthAuthorization {
+	authorizationUrl: string;
+	state: OAuthStateSchemaType;
+}
+
+export default class OAuthService extends DrizzleService {
+	async createAuthorization(providerName: string): Promise<ServiceApiResponse<OAuthAuthorization>> {
+		try {
+			const provider = this.findProvider(providerName);
+
+			const state: OAuthStateSchemaType = {
+				provider: provider.name,
+				state: crypto.randomBytes(32).toString("base64url"),
+				nonce: crypto.randomBytes(32).toString("base64url"),
+				codeVerifier: crypto.randomBytes(32).toString("base64url")
+			};
+
+			const authorizationUrl = await provider.getAuthorizationUrl({
+				redirectUri: this.redirectUri(provider),
+				state: state.state,
+				nonce: state.nonce,
+				codeChallenge: crypto.createHash("sha256").update(state.codeVerifier).digest("base64url")
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Authorization created successfully", {
+				authorizationUrl,
+				state
+			});
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async authenticate(
+		providerName: string,
+		data: OAuthCallbackSchemaType,
+		state?: OAuthStateSchemaType
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const provider = this.findProvider(providerName);
+
+			if (
+				!state ||
+				state.provider !== provider.name ||
+				!AppHelpers.safeCompare(state.state, data.state)
+			) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Invalid or expired login attempt, please try again"
+				);
+			}
+
+			const profile = await provider.fetchProfile({
+				code: data.code,
+				redirectUri: this.redirectUri(provider),
+				codeVerifier: state.codeVerifier,
+				nonce: state.nonce
+			});
+
+			const user = await this.findOrCreateUser(provider.name, profile);
+
+			if (!user.isActive) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.FORBIDDEN,
+					accountDeactivatedMessage
+				);
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Logged in successfully", user);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Resolve the local user for a provider profile.
+	 * Known provider accounts log in directly, otherwise the profile is linked to the user
+	 * with the same email when the provider has verified it, or a new user is created.
+	 *
+	 * @param provider
+	 * @param profile
+	 */
+	private async findOrCreateUser(provider: string, profile: OAuthProfile): Promise<Express.User> {
+		const account = await this.getDb().query.oauthAccounts.findFirst({
+			where: and(
+				eq(oauthAccounts.provider, provider),
+				eq(oauthAccounts.providerUserId, profile.providerUserId)
+			)
+		});
+
+		if (account) {
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.id, account.userId),
+				columns: { password: false }
+			});
+			if (user) return user;
+		}
+
+		const existingUser = await this.getDb().query.users.findFirst({
+			where: eq(users.email, profile.email)
+		});
+
+		if (existingUser) {
+			// Linking on an unverified email would let anyone claim the account
+			if (!profile.emailVerified) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.CONFLICT,
+					"An account with this email already exists. Log in with your password instead"
+				);
+			}
+
+			const { password: _, ...user } = await this.getDb().transaction(async tx => {
+				await tx.insert(oauthAccounts).values({
+					userId: existingUser.id,
+					provider,
+					providerUserId: profile.providerUserId,
+					email: profile.email
+				});
+
+				if (existingUser.emailVerifiedAt) return existingUser;
+
+				// The local account never proved ownership of the email, so whoever set its
+				// password may not be its owner. The provider has, so drop the password.
+				return tx
+					.update(users)
+					.set({ emailVerifiedAt: new Date(), password: null })
+					.where(eq(users.id, existingUser.id))
+					.returning()
+					.then(rows => rows[0]);
+			});
+
+			if (!existingUser.emailVerifiedAt) await sessionStore.destroyByUserId(existingUser.id);
+
+			return user;
+		}
+
+		const { password: _, ...user } = await this.getDb().transaction(async tx => {
+			const createdUser = await tx
+				.insert(users)
+				.values({
+					name: profile.name.slice(0, 255),
+					username: this.generateUsername(profile.email),
+					email: profile.email,
+					emailVerifiedAt: profile.emailVerified ? new Date() : null
+				})
+				.returning()
+				.then(rows => rows[0]);
+
+			await tx.insert(oauthAccounts).values({
+				userId: createdUser.id,
+				provider,
+				providerUserId: profile.providerUserId,
+				email: profile.email
+			});
+
+			return createdUser;
+		});
+
+		return user;
+	}
+
+	private findProvider(name: string): OAuthProvider {
+		const provider = getOAuthProvider(name);
+
+		if (!provider) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.NOT_FOUND,
+				`OAuth provider ${name} is not configured`
+			);
+		}
+
+		return provider;
+	}
+
+	private redirectUri(provider: OAuthProvider): string {
+		return `${process.env.API_URL}/auth/oauth/${provider.name}/callback`;
+	}
+
+	/**
+	 * Derive a username from the email with a random suffix, within the 20 characters allowed
+	 *
+	 * @param email
+	 */
+	private generateUsername(email: string): string {
+		const base = email
+			.split("@")[0]
+			.replace(/[^a-zA-Z0-9_]/g, "_")
+			.slice(0, 13);
+
+		return `${base}_${crypto.randomBytes(3).toString("hex")}`;
+	}
+}
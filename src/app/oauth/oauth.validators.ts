@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+import { validateEmail, validateEnum, validateString } from "@/validators/commonRules";
+
+export const oauthCallbackSchema = z.object({
+	code: validateString("Code", { min: 1 }),
+	state: validateString("State", { min: 1 })
+});
+
+// Contents of the signed cookie written when the authorization starts
+export const oauthStateSchema = z.object({
+	provider: validateString("Provider", { min: 1 }),
+	state: validateString("State", { min: 1 }),
+	nonce: validateString("Nonce", { min: 1 }),
+	codeVerifier: validateString("Code Verifier", { min: 1 })
+});
+
+export const oauthMockAuthorizeSchema = z.object({
+	redirect_uri: validateString("Redirect URI", { min: 1 }),
+	state: validateString("State", { min: 1 }),
+	nonce: validateString("Nonce", { min: 1 }),
+	code_challenge: validateString("Code Challenge", { min: 1 }),
+	code_challenge_method: validateEnum("Code Challenge Method", ["S256"]),
+	login_hint: validateEmail,
+	name: validateString("Name", { max: 255 }).optional(),
+	email_verified: validateEnum("Email Verified", ["true", "false"]).optional()
+});
+
+export type OAuthCallbackSchemaType = z.infer<typeof oauthCallbackSchema>;
+export type OAuthStateSchemaType = z.infer<typeof oauthStateSchema>;
+export type OAuthMockAuthorizeSchemaType = z.infer<typeof oauthMockAuthorizeSchema>;
@@ -0,0 +1,98 @@
+import { StatusCodes } from "http-status-codes";
+
+import {
+	type OAuthAuthorizationParams,
+	type OAuthCallbackParams,
+	type OAuthProfile,
+	type OAuthProvider,
+	fetchProviderJson
+} from "@/app/oauth/providers/oauthProvider";
+
+import { ServiceResponse } from "@/utils/serviceApi";
+
+interface GitHubUser {
+	id: number;
+	login: string;
+	name: string | null;
+}
+
+interface GitHubEmail {
+	email: string;
+	primary: boolean;
+	verified: boolean;
+}
+
+/**
+ * GitHub implements plain OAuth 2.0 without OpenID Connect,
+ * so the profile is read from the REST API and the nonce is not used
+ */
+export default class GitHubProvider implements OAuthProvider {
+	readonly name = "github";
+
+	constructor(
+		private readonly clientId: string,
+		private readonly clientSecret: string
+	) {}
+
+	async getAuthorizationUrl(params: OAuthAuthorizationParams): Promise<string> {
+		const url = new URL("https://github.com/login/oauth/authorize");
+		url.search = new URLSearchParams({
+			client_id: this.clientId,
+			redirect_uri: params.redirectUri,
+			scope: "read:user user:email",
+			state: params.state,
+			code_challenge: params.codeChallenge,
+			code_challenge_method: "S256"
+		}).toString();
+
+		return url.toString();
+	}
+
+	async fetchProfile(params: OAuthCallbackParams): Promise<OAuthProfile> {
+		const { access_token } = await fetchProviderJson<{ access_token?: string }>(
+			"https://github.com/login/oauth/access_token",
+			{
+				method: "POST",
+				headers: { "Content-Type": "application/x-www-form-urlencoded" },
+				body: new URLSearchParams({
+					client_id: this.clientId,
+					client_secret: this.clientSecret,
+					code: params.code,
+					redirect_uri: params.redirectUri,
+					code_verifier: params.codeVerifier
+				})
+			}
+		);
+
+		if (!access_token) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.UNAUTHORIZED,
+				"Invalid or expired authorization code"
+			);
+		}
+
+		const headers = {
+			Authorization: `Bearer ${access_token}`,
+			"User-Agent": "express-boilerplate"
+		};
+		const user = await fetchProviderJson<GitHubUser>("https://api.github.com/user", { headers });
+		const emails = await fetchProviderJson<GitHubEmail[]>("https://api.github.com/user/emails", {
+			headers
+		});
+
+		const email = emails.find(item => item.primary) ?? emails.find(item => item.verified);
+		if (!email) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.BAD_REQUEST,
+				"OAuth provider did not share an email address"
+			);
+		}
+
+		return {
+			providerUserId: String(user.id),
+			email: email.email.toLowerCase(),
+			emailVerified: email.verified,
+			name: user.name || user.login
+		};
+	}
+}
@@ -0,0 +1,56 @@
+import GitHubProvider from "@/app/oauth/providers/github.provider";
+import MockOAuthProvider from "@/app/oauth/providers/mock.provider";
+import type { OAuthProvider } from "@/app/oauth/providers/oauthProvider";
+import OidcProvider from "@/app/oauth/providers/oidc.provider";
+
+let providers: Map<string, OAuthProvider> | undefined;
+
+/**
+ * Register every provider whose credentials are present in the environment
+ */
+function createProviders(): Map<string, OAuthProvider> {
+	const registry = new Map<string, OAuthProvider>();
+	const register = (provider: OAuthProvider) => registry.set(provider.name, provider);
+
+	if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+		register(
+			new OidcProvider("google", {
+				issuer: "https://accounts.google.com",
+				clientId: process.env.GOOGLE_CLIENT_ID,
+				clientSecret: process.env.GOOGLE_CLIENT_SECRET
+			})
+		);
+	}
+
+	if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+		register(new GitHubProvider(process.env.GITHUB_CLIENT_ID, process.env.GITHUB_CLIENT_SECRET));
+	}
+
+	if (process.env.OIDC_ISSUER_URL && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET) {
+		register(
+			new OidcProvider(process.env.OIDC_PROVIDER_NAME || "oidc", {
+				issuer: process.env.OIDC_ISSUER_URL,
+				clientId: process.env.OIDC_CLIENT_ID,
+				clientSecret: process.env.OIDC_CLIENT_SECRET,
+				scope: process.env.OIDC_SCOPE
+			})
+		);
+	}
+
+	if (process.env.OAUTH_MOCK_ENABLED === "true" && process.env.NODE_ENV !== "production") {
+		register(new MockOAuthProvider());
+	}
+
+	return registry;
+}
+
+export function getOAuthProviders(): Map<string, OAuthProvider> {
+	providers ??= createProviders();
+	return providers;
+}
+
+export function getOAuthProvider(name: string): OAuthProvider | undefined {
+	return getOAuthProviders().get(name);
+}
+
+export type { OAuthProfile, OAuthProvider } from "@/app/oauth/providers/oauthProvider";
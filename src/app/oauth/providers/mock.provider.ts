@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import { StatusCodes } from "http-status-codes";
+
+import type { OAuthMockAuthorizeSchemaType } from "@/app/oauth/oauth.validators";
+import type {
+	OAuthAuthorizationParams,
+	OAuthCallbackParams,
+	OAuthProfile,
+	OAuthProvider
+} from "@/app/oauth/providers/oauthProvider";
+
+import { oauthStateTimeout } from "@/core/constants";
+import AppHelpers from "@/utils/appHelpers";
+import { ServiceResponse } from "@/utils/serviceApi";
+
+interface MockAuthorizationCode {
+	redirectUri: string;
+	codeChallenge: string;
+	nonce: string;
+	profile: OAuthProfile;
+	expiresAt: number;
+}
+
+/**
+ * Local provider that signs in whoever is named in the `login_hint` parameter.
+ * It runs the same authorization code + PKCE flow as a real provider without any network access,
+ * so the complete login can be exercised in development and tests. Never enabled in production.
+ */
+export default class MockOAuthProvider implements OAuthProvider {
+	readonly name = "mock";
+	private readonly codes = new Map<string, MockAuthorizationCode>();
+
+	async getAuthorizationUrl(params: OAuthAuthorizationParams): Promise<string> {
+		const url = new URL(`${process.env.API_URL}/auth/oauth/mock/authorize`);
+		url.search = new URLSearchParams({
+			response_type: "code",
+			redirect_uri: params.redirectUri,
+			state: params.state,
+			nonce: params.nonce,
+			code_challenge: params.codeChallenge,
+			code_challenge_method: "S256"
+		}).toString();
+
+		return url.toString();
+	}
+
+	/**
+	 * Play the part of the provider login page and redirect back with an authorization code
+	 *
+	 * @param params
+	 */
+	authorize(params: OAuthMockAuthorizeSchemaType): string {
+		const code = crypto.randomBytes(32).toString("base64url");
+		const email = params.login_hint.toLowerCase();
+
+		this.codes.set(code, {
+			redirectUri: params.redirect_uri,
+			codeChallenge: params.code_challenge,
+			nonce: params.nonce,
+			profile: {
+				providerUserId: crypto.createHash("sha256").update(email).digest("hex"),
+				email,
+				emailVerified: params.email_verified !== "false",
+				name: params.name || email.split("@")[0]
+			},
+			expiresAt: Date.now() + oauthStateTimeout
+		});
+
+		const url = new URL(params.redirect_uri);
+		url.searchParams.set("code", code);
+		url.searchParams.set("state", params.state);
+
+		return url.toString();
+	}
+
+	async fetchProfile(params: OAuthCallbackParams): Promise<OAuthProfile> {
+		const authorization = this.codes.get(params.code);
+		this.codes.delete(params.code);
+
+		const codeChallenge = crypto
+			.createHash("sha256")
+			.update(params.codeVerifier)
+			.digest("base64url");
+
+		if (
+			!authorization ||
+			authorization.expiresAt < Date.now() ||
+			authorization.redirectUri !== params.redirectUri ||
+			!AppHelpers.safeCompare(authorization.codeChallenge, codeChallenge) ||
+			!AppHelpers.safeCompare(authorization.nonce, params.nonce)
+		) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.UNAUTHORIZED,
+				"Invalid or expired authorization code"
+			);
+		}
+
+		return authorization.profile;
+	}
+}
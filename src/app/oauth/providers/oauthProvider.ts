@@ -0,0 +1,63 @@
+import { StatusCodes } from "http-status-codes";
+
+import { ServiceResponse } from "@/utils/serviceApi";
+
+export interface OAuthProfile {
+	providerUserId: string;
+	email: string;
+	emailVerified: boolean;
+	name: string;
+}
+
+export interface OAuthAuthorizationParams {
+	redirectUri: string;
+	state: string;
+	nonce: string;
+	codeChallenge: string;
+}
+
+export interface OAuthCallbackParams {
+	code: string;
+	redirectUri: string;
+	codeVerifier: string;
+	nonce: string;
+}
+
+/**
+ * A provider able to run the authorization code flow with PKCE
+ */
+export interface OAuthProvider {
+	readonly name: string;
+
+	/**
+	 * Build the URL the user is redirected to in order to sign in at the provider
+	 */
+	getAuthorizationUrl(params: OAuthAuthorizationParams): Promise<string>;
+
+	/**
+	 * Exchange the authorization code and resolve the profile of the signed in user
+	 */
+	fetchProfile(params: OAuthCallbackParams): Promise<OAuthProfile>;
+}
+
+/**
+ * Fetch a JSON document, rejecting with a 502 when the provider answers with an error
+ *
+ * @param url
+ * @param init
+ */
+export async function fetchProviderJson<T>(url: string, init?: RequestInit): Promise<T> {
+	const response = await fetch(url, {
+		...init,
+		headers: { Accept: "application/json", ...init?.headers }
+	});
+
+	if (!response.ok) {
+		return ServiceResponse.createRejectResponse(
+			StatusCodes.BAD_GATEWAY,
+			`OAuth provider request failed with status ${response.status}`
+		);
+	}
+
+	return response.json() as Promise<T>;
+}
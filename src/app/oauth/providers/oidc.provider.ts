@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import { StatusCodes } from "http-status-codes";
+import jwt from "jsonwebtoken";
+
+import {
+	type OAuthAuthorizationParams,
+	type OAuthCallbackParams,
+	type OAuthProfile,
+	type OAuthProvider,
+	fetchProviderJson
+} from "@/app/oauth/providers/oauthProvider";
+
+import AppHelpers from "@/utils/appHelpers";
+import { ServiceResponse } from "@/utils/serviceApi";
+
+interface OidcDiscoveryDocument {
+	issuer: string;
+	authorization_endpoint: string;
+	token_endpoint: string;
+	jwks_uri: string;
+}
+
+interface OidcIdTokenClaims {
+	sub: string;
+	email?: string;
+	email_verified?: boolean | string;
+	name?: string;
+	nonce?: string;
+}
+
+export interface OidcProviderConfig {
+	issuer: string;
+	clientId: string;
+	clientSecret: string;
+	scope?: string;
+}
+
+/**
+ * Generic OpenID Connect provider configured from the issuer discovery document
+ */
+export default class OidcProvider implements OAuthProvider {
+	private discovery?: Promise<OidcDiscoveryDocument>;
+
+	constructor(
+		readonly name: string,
+		private readonly config: OidcProviderConfig
+	) {}
+
+	async getAuthorizationUrl(params: OAuthAuthorizationParams): Promise<string> {
+		const { authorization_endpoint } = await this.getDiscoveryDocument();
+
+		const url = new URL(authorization_endpoint);
+		url.search = new URLSearchParams({
+			response_type: "code",
+			client_id: this.config.clientId,
+			redirect_uri: params.redirectUri,
+			scope: this.config.scope ?? "openid email profile",
+			state: params.state,
+			nonce: params.nonce,
+			code_challenge: params.codeChallenge,
+			code_challenge_method: "S256"
+		}).toString();
+
+		return url.toString();
+	}
+
+	async fetchProfile(params: OAuthCallbackParams): Promise<OAuthProfile> {
+		const discovery = await this.getDiscoveryDocument();
+
+		const { id_token } = await fetchProviderJson<{ id_token?: string }>(discovery.token_endpoint, {
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded" },
+			body: new URLSearchParams({
+				grant_type: "authorization_code",
+				code: params.code,
+				redirect_uri: params.redirectUri,
+				client_id: this.config.clientId,
+				client_secret: this.config.clientSecret,
+				code_verifier: params.codeVerifier
+			})
+		});
+
+		if (!id_token) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.BAD_GATEWAY,
+				"OAuth provider did not return an ID token"
+			);
+		}
+
+		const claims = await this.verifyIdToken(id_token, discovery);
+
+		if (!claims.nonce || !AppHelpers.safeCompare(claims.nonce, params.nonce)) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.UNAUTHORIZED,
+				"Invalid ID token nonce"
+			);
+		}
+
+		if (!claims.email) {
+			return ServiceResponse.createRejectResponse(
+				StatusCodes.BAD_REQUEST,
+				"OAuth provider did not share an email address"
+			);
+		}
+
+		return {
+			providerUserId: claims.sub,
+			email: claims.email.toLowerCase(),
+			emailVerified: claims.email_verified === true || claims.email_verified === "true",
+			name: claims.name || claims.email.split("@")[0]
+		};
+	}
+
+	/**
+	 * Verify the signature, issuer and audience of an ID token against the provider keys
+	 *
+	 * @param idToken
+	 * @param discovery
+	 */
+	private async verifyIdToken(
+		idToken: string,
+		discovery: OidcDiscoveryDocument
+	): Promise<OidcIdTokenClaims> {
+		const decoded = jwt.decode(idToken, { complete: true });
+		const { keys } = await fetchProviderJson<{ keys: crypto.JsonWebKey[] }>(discovery.jwks_uri);
+
+		const jwk = keys.find(key => !decoded?.header.kid || key.kid === decoded.header.kid);
+		if (!decoded || !jwk) {
+			return ServiceResponse.createRejectResponse(StatusCodes.UNAUTHORIZED, "Invalid ID token");
+		}
+
+		try {
+			return jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: "jwk" }), {
+				algorithms: ["RS256", "RS384", "RS512", "ES256", "ES384", "ES512"],
+				audience: this.config.clientId,
+				issuer: discovery.issuer
+			}) as OidcIdTokenClaims;
+		} catch {
+			return ServiceResponse.createRejectResponse(StatusCodes.UNAUTHORIZED, "Invalid ID token");
+		}
+	}
+
+	/**
+	 * Load the discovery document once, retrying on the next call if it failed
+	 */
+	private getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+		this.discovery ??= fetchProviderJson<OidcDiscoveryDocument>(
+			`${this.config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+		).catch(error => {
+			this.discovery = undefined;
+			throw error;
+		});
+
+		return this.discovery;
+	}
+}
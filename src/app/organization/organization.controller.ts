@@ -0,0 +1,171 @@
+import type { Request, Response } from "express";
+
+import { auditContext } from "@/app/audit/audit.service";
+import { organizationRole } from "@/app/organization/organization.middleware";
+import OrganizationService from "@/app/organization/organization.service";
+import {
+	organizationCreateSchema,
+	organizationMemberCreateSchema,
+	organizationMemberUpdateSchema,
+	organizationQuerySchema,
+	organizationUpdateSchema
+} from "@/app/organization/organization.validators";
+import OrganizationMemberService, {
+	type OrganizationActor
+} from "@/app/organization/organizationMember.service";
+
+import { ApiController } from "@/core/controller";
+import { organizations } from "@/models/drizzle/organization.model";
+import { organizationMembers } from "@/models/drizzle/organizationMember.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class OrganizationController extends ApiController {
+	protected readonly organizationService: OrganizationService;
+	protected readonly organizationMemberService: OrganizationMemberService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.organizationService = new OrganizationService();
+		this.organizationMemberService = new OrganizationMemberService().setOrganization(
+			request.organization?.id
+		);
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = organizationQuerySchema(new SortingHelper(organizations)).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.organizationService.retrieveForUser(this.request.user!.id, check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async create(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = organizationCreateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.organizationService.create(
+			this.request.user!.id,
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async show(): Promise<Response> {
+		const data = await this.organizationService.retrieveOne(this.request.organization!.id);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async update(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = organizationUpdateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.organizationService.update(
+			this.request.organization!.id,
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async delete(): Promise<Response> {
+		const data = await this.organizationService.delete(
+			this.request.organization!.id,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async members(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = organizationQuerySchema(new SortingHelper(organizationMembers)).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.organizationMemberService.retrieve(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async addMember(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = organizationMemberCreateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.organizationMemberService.create(
+			this.actor(),
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async updateMember(): Promise<Response> {
+		const { body } = this.request;
+		const { userId } = this.request.params;
+
+		if (isNaN(Number(userId))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const check = organizationMemberUpdateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.organizationMemberService.update(
+			this.actor(),
+			Number(userId),
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async removeMember(): Promise<Response> {
+		const { userId } = this.request.params;
+
+		if (isNaN(Number(userId))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const data = await this.organizationMemberService.delete(
+			this.actor(),
+			Number(userId),
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	// Only called behind `requireOrganizationRole`, which guarantees a role
+	private actor(): OrganizationActor {
+		return { userId: this.request.user!.id, role: organizationRole(this.request)! };
+	}
+}
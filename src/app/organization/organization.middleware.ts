@@ -0,0 +1,138 @@
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import { requirePermission } from "@/app/auth/auth.middleware";
+import OrganizationService from "@/app/organization/organization.service";
+
+import { organizationHeader } from "@/core/constants";
+import { ORGANIZATION_ROLE_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import type { OrganizationRoleType, PermissionType } from "@/databases/drizzle/types";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+import { ApiResponse } from "@/utils/serviceApi";
+
+/**
+ * The slug or id of the organization a request targets, taken from the first of
+ * - the `:organization` path parameter
+ * - the `X-Organization` header
+ * - the subdomain of `TENANT_DOMAIN`
+ */
+function organizationIdentifier(req: Request): string | undefined {
+	if (req.params?.organization) return req.params.organization;
+
+	const header = req.get(organizationHeader);
+	if (header) return header.trim();
+
+	const tenantDomain = process.env.TENANT_DOMAIN;
+	if (tenantDomain && req.hostname.endsWith(`.${tenantDomain}`)) {
+		const subdomain = req.hostname.slice(0, -(tenantDomain.length + 1));
+		// Only a single label identifies an organization, e.g. `acme` in `acme.example.com`
+		if (subdomain && !subdomain.includes(".")) return subdomain;
+	}
+
+	return undefined;
+}
+
+/**
+ * The role of the user in the organization of the request
+ * Global administrators act as owners of every organization
+ */
+export function organizationRole(req: Request): OrganizationRoleType | undefined {
+	if (req.user?.role === ROLE_LIST.ADMIN) return ORGANIZATION_ROLE_LIST.OWNER;
+
+	return req.membership?.role;
+}
+
+/**
+ * Resolve the organization a request targets into `req.organization`
+ * along with the membership of the authenticated user into `req.membership`
+ * Requests that target no organization are passed through untouched
+ * Routers using the `:organization` path parameter must be created with `mergeParams`
+ */
+export const resolveOrganization = asyncErrorHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const identifier = organizationIdentifier(req);
+		if (!identifier) return next();
+
+		const organizationService = new OrganizationService();
+
+		const organization = await organizationService.findByIdentifier(identifier);
+		if (!organization) {
+			return new ApiResponse(res).sendResponse({
+				status: StatusCodes.NOT_FOUND,
+				message: "Organization not found"
+			});
+		}
+
+		req.organization = { id: organization.id, name: organization.name, slug: organization.slug };
+
+		if (req.user) {
+			const membership = await organizationService.findMembership(organization.id, req.user.id);
+			if (membership) req.membership = { id: membership.id, role: membership.role };
+		}
+
+		next();
+	}
+);
+
+/**
+ * Only allow members of the resolved organization having one of the given roles,
+ * or any role when none is given
+ * Use after `isAuthenticated` and `resolveOrganization`
+ *
+ * @example router.put("", requireOrganizationRole(ORGANIZATION_ROLE_LIST.OWNER), handler)
+ */
+export const requireOrganizationRole =
+	(...roles: OrganizationRoleType[]) =>
+	(req: Request, res: Response, next: NextFunction) => {
+		if (!req.organization) {
+			return new ApiResponse(res).badResponse(
+				"No organization specified, use the path, the X-Organization header or a subdomain"
+			);
+		}
+
+		const role = organizationRole(req);
+
+		if (role && (roles.length === 0 || roles.includes(role))) return next();
+
+		// Do not reveal organizations the user does not belong to
+		if (!role) {
+			return new ApiResponse(res).sendResponse({
+				status: StatusCodes.NOT_FOUND,
+				message: "Organization not found"
+			});
+		}
+
+		return new ApiResponse(res).forbiddenResponse(
+			"You do not have permission to access this resource"
+		);
+	};
+
+/**
+ * Require global permissions for requests without an organization, while within an organization
+ * its owners and administrators stand in for them, as they hold no global permission
+ * Global administrators keep their permission checks, and API keys stay limited to their scopes
+ * Use after `isAuthenticated` and `resolveOrganization`
+ *
+ * @example router.get("", requireOrganizationPermission(PERMISSION_LIST.EMAIL_READ), handler)
+ */
+export const requireOrganizationPermission = (...permissions: PermissionType[]) => {
+	const requireGlobalPermission = requirePermission(...permissions);
+	const requireOrganizationAdmin = requireOrganizationRole(
+		ORGANIZATION_ROLE_LIST.OWNER,
+		ORGANIZATION_ROLE_LIST.ADMIN
+	);
+
+	return (req: Request, res: Response, next: NextFunction) => {
+		if (!req.organization || req.user?.role === ROLE_LIST.ADMIN) {
+			return requireGlobalPermission(req, res, next);
+		}
+
+		if (req.apiKey && !permissions.every(permission => req.apiKey!.scopes.includes(permission))) {
+			return new ApiResponse(res).forbiddenResponse(
+				"You do not have permission to access this resource"
+			);
+		}
+
+		return requireOrganizationAdmin(req, res, next);
+	};
+};
@@ -0,0 +1,94 @@
+import express, { Router } from "express";
+
+import { isAuthenticated } from "@/app/auth/auth.middleware";
+import OrganizationController from "@/app/organization/organization.controller";
+import {
+	requireOrganizationRole,
+	resolveOrganization
+} from "@/app/organization/organization.middleware";
+
+import { ORGANIZATION_ROLE_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+// Organizations of the authenticated user
+export const organizationRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated);
+
+	router
+		.route("")
+		.get(
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).index();
+			})
+		)
+		.post(
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).create();
+			})
+		);
+
+	return router;
+})();
+
+/**
+ * A single organization, mounted both under `/organizations/:organization`
+ * and under `/organization` where it is resolved from the header or subdomain
+ */
+export const currentOrganizationRouter: Router = (() => {
+	const router = express.Router({ mergeParams: true });
+
+	router.use(isAuthenticated, resolveOrganization, requireOrganizationRole());
+
+	router
+		.route("")
+		.get(
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).show();
+			})
+		)
+		.put(
+			requireOrganizationRole(ORGANIZATION_ROLE_LIST.OWNER, ORGANIZATION_ROLE_LIST.ADMIN),
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).update();
+			})
+		)
+		.delete(
+			requireOrganizationRole(ORGANIZATION_ROLE_LIST.OWNER),
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).delete();
+			})
+		);
+
+	router
+		.route("/members")
+		.get(
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).members();
+			})
+		)
+		.post(
+			requireOrganizationRole(ORGANIZATION_ROLE_LIST.OWNER, ORGANIZATION_ROLE_LIST.ADMIN),
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).addMember();
+			})
+		);
+
+	router
+		.route("/members/:userId")
+		.put(
+			requireOrganizationRole(ORGANIZATION_ROLE_LIST.OWNER, ORGANIZATION_ROLE_LIST.ADMIN),
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).updateMember();
+			})
+		)
+		// Members can leave by removing themselves, the service checks the other cases
+		.delete(
+			asyncErrorHandler(async (req, res) => {
+				await new OrganizationController(req, res).removeMember();
+			})
+		);
+
+	return router;
+})();
@@ -0,0 +1,289 @@
+import { and, count, eq, getTableColumns, gte, ilike, lte, ne, or } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { type AuditContext, auditChanges } from "@/app/audit/audit.service";
+import type {
+	OrganizationCreateSchemaType,
+	OrganizationQuerySchemaType,
+	OrganizationUpdateSchemaType
+} from "@/app/organization/organization.validators";
+
+import PaginationManager from "@/core/pagination";
+import { AUDIT_ACTION_LIST, ORGANIZATION_ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type {
+	OrganizationMemberSchemaType,
+	OrganizationRoleType,
+	OrganizationSchemaType
+} from "@/databases/drizzle/types";
+import { organizations } from "@/models/drizzle/organization.model";
+import { organizationMembers } from "@/models/drizzle/organizationMember.model";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+// An organization along with the role of the user it is listed for
+export type UserOrganization = OrganizationSchemaType & { role: OrganizationRoleType };
+
+export default class OrganizationService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof organizations>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(organizations);
+	}
+
+	/**
+	 * List the organizations a user is a member of
+	 *
+	 * @param userId
+	 * @param filter
+	 */
+	async retrieveForUser(
+		userId: number,
+		filter: OrganizationQuerySchemaType
+	): Promise<ServiceApiResponse<UserOrganization[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			// Create date objects from string inputs if they exist
+			const fromDate = filter.from ? new Date(filter.from) : undefined;
+			const toDate = filter.to ? new Date(filter.to) : undefined;
+
+			// If toDate exists, set it to the end of the day
+			if (toDate) {
+				toDate.setHours(23, 59, 59, 999);
+			}
+
+			const conditions = [
+				eq(organizationMembers.userId, userId),
+				filter.search
+					? or(
+							ilike(organizations.name, `%${filter.search}%`),
+							ilike(organizations.slug, `%${filter.search}%`)
+						)
+					: undefined,
+				filter.role ? eq(organizationMembers.role, filter.role) : undefined,
+				fromDate ? gte(organizations.createdAt, fromDate) : undefined,
+				toDate ? lte(organizations.createdAt, toDate) : undefined
+			].filter(Boolean);
+
+			const whereClause = and(...conditions);
+
+			const query = this.getDb()
+				.select({ ...getTableColumns(organizations), role: organizationMembers.role })
+				.from(organizations)
+				.innerJoin(organizationMembers, eq(organizationMembers.organizationId, organizations.id))
+				.where(whereClause)
+				.orderBy(orderBy!);
+
+			if (!filter.page || !filter.limit) {
+				const data = await query;
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"Organizations retrieved successfully",
+					data
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(organizations)
+				.innerJoin(organizationMembers, eq(organizationMembers.organizationId, organizations.id))
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await query.limit(filter.limit).offset(offset);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Organizations retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveOne(id: number): Promise<ServiceApiResponse<OrganizationSchemaType>> {
+		try {
+			const data = await this.getDb().query.organizations.findFirst({
+				where: eq(organizations.id, id)
+			});
+
+			if (!data) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.NOT_FOUND,
+					"Organization not found"
+				);
+			}
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Organization retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Create an organization owned by the user creating it
+	 *
+	 * @param userId
+	 * @param data
+	 * @param client
+	 */
+	async create(
+		userId: number,
+		data: OrganizationCreateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<OrganizationSchemaType>> {
+		try {
+			await this.assertUniqueSlug(data.slug);
+
+			const organization = await this.db.transaction(async tx => {
+				const organization = await tx
+					.insert(organizations)
+					.values(data)
+					.returning()
+					.then(rows => rows[0]);
+
+				await tx.insert(organizationMembers).values({
+					organizationId: organization.id,
+					userId,
+					role: ORGANIZATION_ROLE_LIST.OWNER
+				});
+
+				return organization;
+			});
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.ORGANIZATION_CREATED,
+				targetType: "organization",
+				targetId: organization.id,
+				metadata: { slug: organization.slug }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.CREATED,
+				"Organization created successfully",
+				organization
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async update(
+		id: number,
+		data: OrganizationUpdateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<OrganizationSchemaType>> {
+		try {
+			const { data: existing } = await this.retrieveOne(id);
+
+			if (data.slug) await this.assertUniqueSlug(data.slug, id);
+
+			const organization = await this.getDb()
+				.update(organizations)
+				.set(data)
+				.where(eq(organizations.id, id))
+				.returning()
+				.then(rows => rows[0]);
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.ORGANIZATION_UPDATED,
+				targetType: "organization",
+				targetId: id,
+				changes: auditChanges(existing, organization)
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Organization updated successfully",
+				organization
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Delete an organization along with its memberships and email overrides
+	 *
+	 * @param id
+	 * @param client
+	 */
+	async delete(id: number, client: AuditContext): Promise<ServiceApiResponse<null>> {
+		try {
+			const { data: existing } = await this.retrieveOne(id);
+
+			await this.getDb().delete(organizations).where(eq(organizations.id, id));
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.ORGANIZATION_DELETED,
+				targetType: "organization",
+				targetId: id,
+				metadata: { slug: existing.slug }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Organization deleted successfully",
+				null
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Find an organization by its id or slug, as given in a path, header or subdomain
+	 *
+	 * @param identifier
+	 */
+	async findByIdentifier(identifier: string): Promise<OrganizationSchemaType | undefined> {
+		return this.getDb().query.organizations.findFirst({
+			where: /^\d+$/.test(identifier)
+				? eq(organizations.id, Number(identifier))
+				: eq(organizations.slug, identifier.toLowerCase())
+		});
+	}
+
+	async findMembership(
+		organizationId: number,
+		userId: number
+	): Promise<OrganizationMemberSchemaType | undefined> {
+		return this.getDb().query.organizationMembers.findFirst({
+			where: and(
+				eq(organizationMembers.organizationId, organizationId),
+				eq(organizationMembers.userId, userId)
+			)
+		});
+	}
+
+	private async assertUniqueSlug(slug: string, exceptId?: number): Promise<void> {
+		const existing = await this.getDb().query.organizations.findFirst({
+			where: and(
+				eq(organizations.slug, slug),
+				exceptId ? ne(organizations.id, exceptId) : undefined
+			),
+			columns: { id: true }
+		});
+
+		if (existing) {
+			ServiceResponse.createRejectResponse(StatusCodes.CONFLICT, "Slug is already taken");
+		}
+	}
+}
@@ -0,0 +1,52 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { ORGANIZATION_ROLE_LIST } from "@/databases/drizzle/lists";
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import { validateEmail, validateEnum, validateString } from "@/validators/commonRules";
+
+export const organizationQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data),
+			role: data.role
+		}),
+		z.object({
+			...baseQuerySchemaShape,
+			role: validateEnum("Role", ORGANIZATION_ROLE_LIST.enumValues).optional()
+		})
+	);
+};
+
+export const organizationCreateSchema = z.object({
+	name: validateString("Name", { min: 1, max: 255 }),
+	// Usable as a subdomain, and never all digits so that it cannot be mistaken for an id
+	slug: validateString("Slug", {
+		min: 1,
+		max: 63,
+		regex: /^(?!\d+$)[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/,
+		regexMsg: "Slug must contain lowercase letters, digits and inner hyphens only"
+	})
+});
+
+export const organizationUpdateSchema = organizationCreateSchema
+	.partial()
+	.refine(data => Object.keys(data).length > 0, { message: "Nothing to update" });
+
+export const organizationMemberCreateSchema = z.object({
+	email: validateEmail,
+	role: validateEnum("Role", ORGANIZATION_ROLE_LIST.enumValues)
+});
+
+export const organizationMemberUpdateSchema = organizationMemberCreateSchema.pick({ role: true });
+
+export type OrganizationQuerySchemaType = z.infer<ReturnType<typeof organizationQuerySchema>>;
+export type OrganizationCreateSchemaType = z.infer<typeof organizationCreateSchema>;
+export type OrganizationUpdateSchemaType = z.infer<typeof organizationUpdateSchema>;
+export type OrganizationMemberCreateSchemaType = z.infer<typeof organizationMemberCreateSchema>;
+export type OrganizationMemberUpdateSchemaType = z.infer<typeof organizationMemberUpdateSchema>;
@@ -0,0 +1,314 @@
+import { and, count, eq, getTableColumns, ilike, or } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { type AuditContext } from "@/app/audit/audit.service";
+import type {
+	OrganizationMemberCreateSchemaType,
+	OrganizationMemberUpdateSchemaType,
+	OrganizationQuerySchemaType
+} from "@/app/organization/organization.validators";
+
+import PaginationManager from "@/core/pagination";
+import { AUDIT_ACTION_LIST, ORGANIZATION_ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type { OrganizationMemberSchemaType, OrganizationRoleType } from "@/databases/drizzle/types";
+import { organizationMembers } from "@/models/drizzle/organizationMember.model";
+import { users } from "@/models/drizzle/user.model";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+// A membership along with the public details of the member
+export type OrganizationMember = OrganizationMemberSchemaType &
+	Pick<Express.User, "name" | "username" | "email">;
+
+/**
+ * The member acting on the organization, global administrators act as owners
+ */
+export interface OrganizationActor {
+	userId: number;
+	role: OrganizationRoleType;
+}
+
+const memberColumns = {
+	...getTableColumns(organizationMembers),
+	name: users.name,
+	username: users.username,
+	email: users.email
+};
+
+/**
+ * Manage the members of one organization, set with `setOrganization`
+ */
+export default class OrganizationMemberService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof organizationMembers>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(organizationMembers);
+	}
+
+	async retrieve(
+		filter: OrganizationQuerySchemaType
+	): Promise<ServiceApiResponse<OrganizationMember[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			const whereClause = and(
+				...[
+					this.tenantScope(organizationMembers),
+					filter.search
+						? or(
+								ilike(users.name, `%${filter.search}%`),
+								ilike(users.username, `%${filter.search}%`),
+								ilike(users.email, `%${filter.search}%`)
+							)
+						: undefined,
+					filter.role ? eq(organizationMembers.role, filter.role) : undefined
+				].filter(Boolean)
+			);
+
+			const query = this.getDb()
+				.select(memberColumns)
+				.from(organizationMembers)
+				.innerJoin(users, eq(users.id, organizationMembers.userId))
+				.where(whereClause)
+				.orderBy(orderBy!);
+
+			if (!filter.page || !filter.limit) {
+				const data = await query;
+
+				return ServiceResponse.createResponse(
+					StatusCodes.OK,
+					"Organization members retrieved successfully",
+					data
+				);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(organizationMembers)
+				.innerJoin(users, eq(users.id, organizationMembers.userId))
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await query.limit(filter.limit).offset(offset);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Organization members retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Add an existing user to the organization
+	 *
+	 * @param actor
+	 * @param data
+	 * @param client
+	 */
+	async create(
+		actor: OrganizationActor,
+		data: OrganizationMemberCreateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<OrganizationMember>> {
+		try {
+			this.assertCanAssignRole(actor, data.role);
+
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.email, data.email),
+				columns: { id: true }
+			});
+
+			if (!user) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.NOT_FOUND,
+					"No user is registered with this email"
+				);
+			}
+
+			if (await this.findMember(user.id)) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.CONFLICT,
+					"The user is already a member of the organization"
+				);
+			}
+
+			await this.getDb().insert(organizationMembers).values({
+				organizationId: this.requireOrganizationId(),
+				userId: user.id,
+				role: data.role
+			});
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.ORGANIZATION_MEMBER_ADDED,
+				targetType: "organization",
+				targetId: this.requireOrganizationId(),
+				metadata: { userId: user.id, role: data.role }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.CREATED,
+				"Member added successfully",
+				(await this.findMember(user.id))!
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async update(
+		actor: OrganizationActor,
+		userId: number,
+		data: OrganizationMemberUpdateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<OrganizationMember>> {
+		try {
+			const member = await this.retrieveMember(userId);
+
+			this.assertCanManage(actor, member);
+			this.assertCanAssignRole(actor, data.role);
+
+			if (member.role === ORGANIZATION_ROLE_LIST.OWNER && data.role !== member.role) {
+				await this.assertNotLastOwner();
+			}
+
+			await this.getDb()
+				.update(organizationMembers)
+				.set({ role: data.role })
+				.where(eq(organizationMembers.id, member.id));
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.ORGANIZATION_MEMBER_UPDATED,
+				targetType: "organization",
+				targetId: member.organizationId,
+				changes: { role: { from: member.role, to: data.role } },
+				metadata: { userId }
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Member updated successfully",
+				(await this.findMember(userId))!
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Remove a member from the organization, members can always leave by removing themselves
+	 *
+	 * @param actor
+	 * @param userId
+	 * @param client
+	 */
+	async delete(
+		actor: OrganizationActor,
+		userId: number,
+		client: AuditContext
+	): Promise<ServiceApiResponse<null>> {
+		try {
+			const member = await this.retrieveMember(userId);
+
+			if (userId !== actor.userId) this.assertCanManage(actor, member);
+			if (member.role === ORGANIZATION_ROLE_LIST.OWNER) await this.assertNotLastOwner();
+
+			await this.getDb().delete(organizationMembers).where(eq(organizationMembers.id, member.id));
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.ORGANIZATION_MEMBER_REMOVED,
+				targetType: "organization",
+				targetId: member.organizationId,
+				metadata: { userId, role: member.role }
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Member removed successfully", null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	private async findMember(userId: number): Promise<OrganizationMember | undefined> {
+		return this.getDb()
+			.select(memberColumns)
+			.from(organizationMembers)
+			.innerJoin(users, eq(users.id, organizationMembers.userId))
+			.where(and(this.tenantScope(organizationMembers), eq(organizationMembers.userId, userId)))
+			.then(rows => rows[0]);
+	}
+
+	private async retrieveMember(userId: number): Promise<OrganizationMember> {
+		const member = await this.findMember(userId);
+
+		if (!member) {
+			return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "Member not found");
+		}
+
+		return member;
+	}
+
+	private requireOrganizationId(): number {
+		const organizationId = this.getOrganizationId();
+		if (!organizationId) throw new Error("Organization members are managed within an organization");
+
+		return organizationId;
+	}
+
+	/**
+	 * Only owners can manage other owners, administrators manage everyone else
+	 */
+	private assertCanManage(actor: OrganizationActor, member: OrganizationMember): void {
+		if (
+			actor.role === ORGANIZATION_ROLE_LIST.MEMBER ||
+			(member.role === ORGANIZATION_ROLE_LIST.OWNER && actor.role !== ORGANIZATION_ROLE_LIST.OWNER)
+		) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.FORBIDDEN,
+				"You do not have permission to manage this member"
+			);
+		}
+	}
+
+	private assertCanAssignRole(actor: OrganizationActor, role: OrganizationRoleType): void {
+		if (role === ORGANIZATION_ROLE_LIST.OWNER && actor.role !== ORGANIZATION_ROLE_LIST.OWNER) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.FORBIDDEN,
+				"Only owners can grant the owner role"
+			);
+		}
+	}
+
+	// An organization must always keep at least one owner
+	private async assertNotLastOwner(): Promise<void> {
+		const owners = await this.getDb()
+			.select({ count: count() })
+			.from(organizationMembers)
+			.where(
+				and(
+					this.tenantScope(organizationMembers),
+					eq(organizationMembers.role, ORGANIZATION_ROLE_LIST.OWNER)
+				)
+			)
+			.then(result => result[0].count);
+
+		if (owners <= 1) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.BAD_REQUEST,
+				"The organization must keep at least one owner"
+			);
+		}
+	}
+}
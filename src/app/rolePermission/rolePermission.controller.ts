@@ -0,0 +1,72 @@
+import type { Request, Response } from "express";
+
+import AuditService, { auditChanges, auditContext } from "@/app/audit/audit.service";
+import RolePermissionService from "@/app/rolePermission/rolePermission.service";
+import {
+	rolePermissionRoleSchema,
+	rolePermissionUpdateSchema
+} from "@/app/rolePermission/rolePermission.validators";
+
+import { ApiController } from "@/core/controller";
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
+
+export default class RolePermissionController extends ApiController {
+	protected readonly rolePermissionService: RolePermissionService;
+	protected readonly auditService: AuditService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.rolePermissionService = new RolePermissionService();
+		this.auditService = new AuditService();
+	}
+
+	async index(): Promise<Response> {
+		const data = await this.rolePermissionService.retrieve();
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async show(): Promise<Response> {
+		const check = rolePermissionRoleSchema.safeParse(this.request.params.role);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.rolePermissionService.retrieveOne(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async update(): Promise<Response> {
+		const { body } = this.request;
+
+		const roleCheck = rolePermissionRoleSchema.safeParse(this.request.params.role);
+		if (!roleCheck.success) {
+			return this.apiResponse.badResponse(roleCheck.error.issues.map(err => err.message).join(" "));
+		}
+
+		const check = rolePermissionUpdateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const previous = await this.rolePermissionService.retrieveOne(roleCheck.data);
+
+		const data = await this.rolePermissionService.update(roleCheck.data, check.data);
+
+		await this.auditService.record(auditContext(this.request), {
+			action: AUDIT_ACTION_LIST.ROLE_PERMISSIONS_UPDATED,
+			targetType: "role",
+			targetId: roleCheck.data,
+			changes: auditChanges({ permissions: previous.data }, { permissions: data.data })
+		});
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
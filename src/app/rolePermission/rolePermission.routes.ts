@@ -0,0 +1,36 @@
+import express, { Router } from "express";
+
+import { isAuthenticated, requirePermission } from "@/app/auth/auth.middleware";
+import RolePermissionController from "@/app/rolePermission/rolePermission.controller";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const rolePermissionRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated, requirePermission(PERMISSION_LIST.ROLE_MANAGE));
+
+	// Get the permission matrix of every role
+	router.get(
+		"",
+		asyncErrorHandler(async (req, res) => {
+			await new RolePermissionController(req, res).index();
+		})
+	);
+
+	router
+		.route("/:role")
+		.get(
+			asyncErrorHandler(async (req, res) => {
+				await new RolePermissionController(req, res).show();
+			})
+		)
+		.put(
+			asyncErrorHandler(async (req, res) => {
+				await new RolePermissionController(req, res).update();
+			})
+		);
+
+	return router;
+})();
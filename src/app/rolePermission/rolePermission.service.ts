@@ -0,0 +1,112 @@
+import { and, eq } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import type { RolePermissionUpdateSchemaType } from "@/app/rolePermission/rolePermission.validators";
+
+import { PERMISSION_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type { PermissionType, RoleType } from "@/databases/drizzle/types";
+import { rolePermissions } from "@/models/drizzle/rolePermission.model";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+
+type PermissionMatrix = Record<RoleType, PermissionType[]>;
+
+export default class RolePermissionService extends DrizzleService {
+	async retrieve(): Promise<ServiceApiResponse<PermissionMatrix>> {
+		try {
+			const rows = await this.getDb().query.rolePermissions.findMany({
+				orderBy: rolePermissions.permission
+			});
+
+			const matrix = Object.fromEntries(
+				ROLE_LIST.enumValues.map(role => [role, this.resolvePermissions(role, rows)])
+			) as PermissionMatrix;
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Role permissions retrieved successfully",
+				matrix
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveOne(role: RoleType): Promise<ServiceApiResponse<PermissionType[]>> {
+		try {
+			const rows = await this.getDb().query.rolePermissions.findMany({
+				where: eq(rolePermissions.role, role),
+				orderBy: rolePermissions.permission
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Role permissions retrieved successfully",
+				this.resolvePermissions(role, rows)
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async update(
+		role: RoleType,
+		data: RolePermissionUpdateSchemaType
+	): Promise<ServiceApiResponse<PermissionType[]>> {
+		try {
+			if (role === ROLE_LIST.ADMIN) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"Administrators always have every permission"
+				);
+			}
+
+			const permissions = [...new Set(data.permissions)];
+
+			// Replace the whole permission set of the role at once
+			await this.db.transaction(async tx => {
+				await tx.delete(rolePermissions).where(eq(rolePermissions.role, role));
+
+				if (permissions.length > 0) {
+					await tx
+						.insert(rolePermissions)
+						.values(permissions.map(permission => ({ role, permission })));
+				}
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Role permissions updated successfully",
+				permissions.sort()
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Check whether a role grants a permission
+	 * Administrators are granted every permission
+	 *
+	 * @param role
+	 * @param permission
+	 */
+	async hasPermission(role: RoleType, permission: PermissionType): Promise<boolean> {
+		if (role === ROLE_LIST.ADMIN) return true;
+
+		const row = await this.getDb().query.rolePermissions.findFirst({
+			where: and(eq(rolePermissions.role, role), eq(rolePermissions.permission, permission))
+		});
+
+		return !!row;
+	}
+
+	private resolvePermissions(
+		role: RoleType,
+		rows: { role: RoleType; permission: PermissionType }[]
+	): PermissionType[] {
+		if (role === ROLE_LIST.ADMIN) return [...PERMISSION_LIST.enumValues];
+
+		return rows.filter(row => row.role === role).map(row => row.permission);
+	}
+}
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+import { PERMISSION_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import { validateArray, validateEnum } from "@/validators/commonRules";
+
+export const rolePermissionRoleSchema = validateEnum("Role", ROLE_LIST.enumValues);
+
+export const rolePermissionUpdateSchema = z.object({
+	permissions: validateArray("Permissions", validateEnum("Permission", PERMISSION_LIST.enumValues))
+});
+
+export type RolePermissionUpdateSchemaType = z.infer<typeof rolePermissionUpdateSchema>;
@@ -0,0 +1,63 @@
+import type { Request, Response } from "express";
+
+import SessionService from "@/app/session/session.service";
+
+import { ApiController } from "@/core/controller";
+
+export default class SessionController extends ApiController {
+	protected readonly sessionService: SessionService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sessionService = new SessionService();
+	}
+
+	async index(): Promise<Response> {
+		const data = await this.sessionService.retrieve(this.request.user!.id, this.request.sessionID);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async delete(): Promise<Response> {
+		const { id } = this.request.params;
+
+		const data = await this.sessionService.revoke(this.request.user!.id, id);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async deleteOthers(): Promise<Response> {
+		const data = await this.sessionService.revokeOthers(
+			this.request.user!.id,
+			this.request.sessionID
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async userIndex(): Promise<Response> {
+		const { userId } = this.request.params;
+
+		if (isNaN(Number(userId))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const data = await this.sessionService.retrieve(Number(userId));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async userDeleteAll(): Promise<Response> {
+		const { userId } = this.request.params;
+
+		if (isNaN(Number(userId))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const data = await this.sessionService.revokeAllForUser(this.request.user!, Number(userId));
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
@@ -0,0 +1,68 @@
+import express, { Router } from "express";
+
+import {
+	blockImpersonation,
+	isAuthenticated,
+	requirePermission,
+	requireSession
+} from "@/app/auth/auth.middleware";
+import SessionController from "@/app/session/session.controller";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+// Sessions of the authenticated user
+export const sessionRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated, requireSession);
+
+	router
+		.route("")
+		.get(
+			asyncErrorHandler(async (req, res) => {
+				await new SessionController(req, res).index();
+			})
+		)
+		// Log out everywhere else
+		.delete(
+			blockImpersonation,
+			asyncErrorHandler(async (req, res) => {
+				await new SessionController(req, res).deleteOthers();
+			})
+		);
+
+	router.delete(
+		"/:id",
+		blockImpersonation,
+		asyncErrorHandler(async (req, res) => {
+			await new SessionController(req, res).delete();
+		})
+	);
+
+	return router;
+})();
+
+// Sessions of any user, for administrators
+export const userSessionRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated);
+
+	router
+		.route("/:userId/sessions")
+		.get(
+			requirePermission(PERMISSION_LIST.USER_READ),
+			asyncErrorHandler(async (req, res) => {
+				await new SessionController(req, res).userIndex();
+			})
+		)
+		.delete(
+			requirePermission(PERMISSION_LIST.USER_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new SessionController(req, res).userDeleteAll();
+			})
+		);
+
+	return router;
+})();
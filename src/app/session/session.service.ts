@@ -0,0 +1,175 @@
+import { and, desc, eq, gt } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import UAParser from "ua-parser-js";
+
+import AuthTokenService from "@/app/auth/authToken.service";
+
+import { ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import { sessions } from "@/models/drizzle/session.model";
+import { users } from "@/models/drizzle/user.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { sessionStore } from "@/utils/sessionStore";
+
+export interface SessionDevice {
+	browser: string | null;
+	os: string | null;
+	type: string;
+}
+
+export interface ActiveSession {
+	id: string;
+	current: boolean;
+	device: SessionDevice;
+	ipAddress: string | null;
+	userAgent: string | null;
+	createdAt: Date;
+	lastSeenAt: Date;
+	expiresAt: Date;
+}
+
+export default class SessionService extends DrizzleService {
+	/**
+	 * List the active sessions of a user, most recently used first
+	 *
+	 * @param userId
+	 * @param currentSid The session making the request, flagged as current
+	 */
+	async retrieve(
+		userId: number,
+		currentSid?: string
+	): Promise<ServiceApiResponse<ActiveSession[]>> {
+		try {
+			const rows = await this.findActiveSessions(userId);
+
+			const data = rows.map(row => ({
+				id: this.publicId(row.sid),
+				current: row.sid === currentSid,
+				device: this.describeDevice(row.userAgent),
+				ipAddress: row.ipAddress,
+				userAgent: row.userAgent,
+				createdAt: row.createdAt,
+				lastSeenAt: row.lastSeenAt,
+				expiresAt: row.expire
+			}));
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Sessions retrieved successfully",
+				data
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async revoke(userId: number, id: string): Promise<ServiceApiResponse<null>> {
+		try {
+			const rows = await this.findActiveSessions(userId);
+			const session = rows.find(row => AppHelpers.safeCompare(this.publicId(row.sid), id));
+
+			if (!session) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "Session not found");
+			}
+
+			await this.getDb().delete(sessions).where(eq(sessions.sid, session.sid));
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Session revoked successfully", null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Log the user out of every session except the current one
+	 *
+	 * @param userId
+	 * @param currentSid
+	 */
+	async revokeOthers(
+		userId: number,
+		currentSid: string
+	): Promise<ServiceApiResponse<{ revoked: number }>> {
+		try {
+			const revoked = await sessionStore.destroyByUserId(userId, currentSid);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Logged out of all other sessions successfully",
+				{ revoked }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Sign a user out everywhere, including clients using refresh tokens
+	 * Only administrators can sign out administrators, like any other change to their accounts
+	 *
+	 * @param actor
+	 * @param userId
+	 */
+	async revokeAllForUser(
+		actor: Express.User,
+		userId: number
+	): Promise<ServiceApiResponse<{ revoked: number }>> {
+		try {
+			const user = await this.getDb().query.users.findFirst({
+				where: eq(users.id, userId),
+				columns: { id: true, role: true }
+			});
+
+			if (!user) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "User not found");
+			}
+
+			if (user.role === ROLE_LIST.ADMIN && actor.role !== ROLE_LIST.ADMIN) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.FORBIDDEN,
+					"Only administrators can manage administrator accounts"
+				);
+			}
+
+			const revoked = await sessionStore.destroyByUserId(userId);
+			await new AuthTokenService().revokeAllForUser(userId);
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"All sessions of the user revoked successfully",
+				{ revoked }
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	private findActiveSessions(userId: number) {
+		return this.getDb().query.sessions.findMany({
+			where: and(eq(sessions.userId, userId), gt(sessions.expire, new Date())),
+			columns: { sess: false },
+			orderBy: desc(sessions.lastSeenAt)
+		});
+	}
+
+	/**
+	 * The session id is the bearer secret of the session cookie, so it is never exposed
+	 *
+	 * @param sid
+	 */
+	private publicId(sid: string): string {
+		return AppHelpers.hashToken(sid).slice(0, 32);
+	}
+
+	private describeDevice(userAgent: string | null): SessionDevice {
+		const { browser, os, device } = new UAParser(userAgent ?? undefined).getResult();
+
+		return {
+			browser: browser.name ? [browser.name, browser.version].filter(Boolean).join(" ") : null,
+			os: os.name ? [os.name, os.version].filter(Boolean).join(" ") : null,
+			// The parser leaves the type empty for desktop browsers
+			type: device.type ?? (browser.name ? "desktop" : "unknown")
+		};
+	}
+}
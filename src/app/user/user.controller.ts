@@ -0,0 +1,151 @@
+import type { Request, Response } from "express";
+
+import { auditContext } from "@/app/audit/audit.service";
+import UserService from "@/app/user/user.service";
+import {
+	userBulkRoleSchema,
+	userBulkSchema,
+	userCreateSchema,
+	userQuerySchema,
+	userUpdateSchema
+} from "@/app/user/user.validators";
+
+import { ApiController } from "@/core/controller";
+import { users } from "@/models/drizzle/user.model";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+export default class UserController extends ApiController {
+	private readonly sortingHelper: SortingHelper<typeof users>;
+	protected readonly userService: UserService;
+
+	/**
+	 * Construct the controller
+	 *
+	 * @param request
+	 * @param response
+	 */
+	constructor(request: Request, response: Response) {
+		super(request, response);
+		this.sortingHelper = new SortingHelper(users);
+		this.userService = new UserService();
+	}
+
+	async index(): Promise<Response> {
+		const { query } = this.request;
+
+		const check = userQuerySchema(this.sortingHelper).safeParse(query);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.userService.retrieve(check.data);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async create(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = userCreateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.userService.create(
+			this.request.user!,
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async show(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const data = await this.userService.retrieveOne(Number(id));
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async update(): Promise<Response> {
+		const { body } = this.request;
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const check = userUpdateSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.userService.update(
+			this.request.user!,
+			Number(id),
+			check.data,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async delete(): Promise<Response> {
+		const { id } = this.request.params;
+
+		if (isNaN(Number(id))) return this.apiResponse.badResponse("User ID must be a number");
+
+		const data = await this.userService.delete(
+			this.request.user!,
+			Number(id),
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	async bulkActivate(): Promise<Response> {
+		return this.bulkSetActive(true);
+	}
+
+	async bulkDeactivate(): Promise<Response> {
+		return this.bulkSetActive(false);
+	}
+
+	async bulkRole(): Promise<Response> {
+		const { body } = this.request;
+
+		const check = userBulkRoleSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.userService.bulkSetRole(
+			this.request.user!,
+			check.data.ids,
+			check.data.role,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+
+	private async bulkSetActive(isActive: boolean): Promise<Response> {
+		const { body } = this.request;
+
+		const check = userBulkSchema.safeParse(body);
+		if (!check.success) {
+			return this.apiResponse.badResponse(check.error.issues.map(err => err.message).join(" "));
+		}
+
+		const data = await this.userService.bulkSetActive(
+			this.request.user!,
+			check.data.ids,
+			isActive,
+			auditContext(this.request)
+		);
+
+		return this.apiResponse.sendResponse(data);
+	}
+}
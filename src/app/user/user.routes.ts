@@ -0,0 +1,76 @@
+import express, { Router } from "express";
+
+import { isAuthenticated, requirePermission } from "@/app/auth/auth.middleware";
+import UserController from "@/app/user/user.controller";
+
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { asyncErrorHandler } from "@/settings/errorHandler";
+
+export const userRouter: Router = (() => {
+	const router = express.Router();
+
+	router.use(isAuthenticated);
+
+	router
+		.route("")
+		.get(
+			requirePermission(PERMISSION_LIST.USER_READ),
+			asyncErrorHandler(async (req, res) => {
+				await new UserController(req, res).index();
+			})
+		)
+		.post(
+			requirePermission(PERMISSION_LIST.USER_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new UserController(req, res).create();
+			})
+		);
+
+	// Bulk actions are applied to every given user or to none of them
+	router.post(
+		"/bulk/activate",
+		requirePermission(PERMISSION_LIST.USER_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new UserController(req, res).bulkActivate();
+		})
+	);
+
+	router.post(
+		"/bulk/deactivate",
+		requirePermission(PERMISSION_LIST.USER_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new UserController(req, res).bulkDeactivate();
+		})
+	);
+
+	router.post(
+		"/bulk/role",
+		requirePermission(PERMISSION_LIST.USER_WRITE),
+		asyncErrorHandler(async (req, res) => {
+			await new UserController(req, res).bulkRole();
+		})
+	);
+
+	router
+		.route("/:id")
+		.get(
+			requirePermission(PERMISSION_LIST.USER_READ),
+			asyncErrorHandler(async (req, res) => {
+				await new UserController(req, res).show();
+			})
+		)
+		.put(
+			requirePermission(PERMISSION_LIST.USER_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new UserController(req, res).update();
+			})
+		)
+		.delete(
+			requirePermission(PERMISSION_LIST.USER_WRITE),
+			asyncErrorHandler(async (req, res) => {
+				await new UserController(req, res).delete();
+			})
+		);
+
+	return router;
+})();
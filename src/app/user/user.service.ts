@@ -0,0 +1,474 @@
+import {
+	and,
+	count,
+	eq,
+	gte,
+	ilike,
+	inArray,
+	isNotNull,
+	isNull,
+	lte,
+	ne,
+	notInArray,
+	or,
+	sql
+} from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+
+import AuditService, { type AuditContext, auditChanges } from "@/app/audit/audit.service";
+import LoginAttemptService from "@/app/loginAttempt/loginAttempt.service";
+import type {
+	UserCreateSchemaType,
+	UserQuerySchemaType,
+	UserUpdateSchemaType
+} from "@/app/user/user.validators";
+
+import PaginationManager from "@/core/pagination";
+import { AUDIT_ACTION_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type { RoleType } from "@/databases/drizzle/types";
+import { refreshTokens } from "@/models/drizzle/refreshToken.model";
+import { sessions } from "@/models/drizzle/session.model";
+import { users } from "@/models/drizzle/user.model";
+import AppHelpers from "@/utils/appHelpers";
+import { type ServiceApiResponse, ServiceResponse } from "@/utils/serviceApi";
+import { SortingHelper } from "@/utils/sortingHelper";
+
+// Password hashes are never read out of the database for these endpoints
+const publicColumns = { password: false } as const;
+
+type UserChanges = Partial<Pick<Express.User, "role" | "isActive">> &
+	Pick<UserUpdateSchemaType, "password" | "emailVerified">;
+
+export default class UserService extends DrizzleService {
+	private readonly sortingHelper: SortingHelper<typeof users>;
+
+	constructor() {
+		super();
+		this.sortingHelper = new SortingHelper(users);
+	}
+
+	async retrieve(filter: UserQuerySchemaType): Promise<ServiceApiResponse<Express.User[]>> {
+		try {
+			const orderBy = this.sortingHelper.applySorting(filter.sortingMethod, filter.sortBy);
+
+			// Create date objects from string inputs if they exist
+			const fromDate = filter.from ? new Date(filter.from) : undefined;
+			const toDate = filter.to ? new Date(filter.to) : undefined;
+
+			// If toDate exists, set it to the end of the day
+			if (toDate) {
+				toDate.setHours(23, 59, 59, 999);
+			}
+
+			// Locked accounts are tracked by login attempt keys of the form `user:<id>`
+			const lockedKeys = new LoginAttemptService().lockedAccountKeys();
+			const userKey = sql`'user:' || ${users.id}`;
+
+			const conditions = [
+				filter.search
+					? or(
+							ilike(users.name, `%${filter.search}%`),
+							ilike(users.username, `%${filter.search}%`),
+							ilike(users.email, `%${filter.search}%`)
+						)
+					: undefined,
+				filter.role ? eq(users.role, filter.role) : undefined,
+				filter.verified !== undefined
+					? filter.verified
+						? isNotNull(users.emailVerifiedAt)
+						: isNull(users.emailVerifiedAt)
+					: undefined,
+				filter.active !== undefined ? eq(users.isActive, filter.active) : undefined,
+				filter.locked !== undefined
+					? filter.locked
+						? inArray(userKey, lockedKeys)
+						: notInArray(userKey, lockedKeys)
+					: undefined,
+				fromDate ? gte(users.createdAt, fromDate) : undefined,
+				toDate ? lte(users.createdAt, toDate) : undefined
+			].filter(Boolean);
+
+			const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+			if (!filter.page || !filter.limit) {
+				const data = await this.getDb().query.users.findMany({
+					where: whereClause,
+					columns: publicColumns,
+					orderBy
+				});
+
+				return ServiceResponse.createResponse(StatusCodes.OK, "Users retrieved successfully", data);
+			}
+
+			const totalItems = await this.getDb()
+				.select({
+					count: count()
+				})
+				.from(users)
+				.where(whereClause)
+				.then(result => result[0].count);
+
+			const { pagination, offset } = new PaginationManager(
+				filter.page,
+				filter.limit,
+				totalItems
+			).createPagination();
+
+			const data = await this.getDb().query.users.findMany({
+				where: whereClause,
+				columns: publicColumns,
+				limit: filter.limit,
+				offset,
+				orderBy
+			});
+
+			return ServiceResponse.createResponse(
+				StatusCodes.OK,
+				"Users retrieved successfully",
+				data,
+				pagination
+			);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async retrieveOne(id: number): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const data = await this.getDb().query.users.findFirst({
+				where: eq(users.id, id),
+				columns: publicColumns
+			});
+
+			if (!data) {
+				return ServiceResponse.createRejectResponse(StatusCodes.NOT_FOUND, "User not found");
+			}
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "User retrieved successfully", data);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async create(
+		actor: Express.User,
+		data: UserCreateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			this.assertCanAssignRole(actor, data.role);
+			await this.assertUnique(data);
+
+			const { password: _, ...user } = await this.getDb()
+				.insert(users)
+				.values({
+					name: data.name,
+					username: data.username,
+					email: data.email,
+					password: data.password ? await AppHelpers.hashPassword(data.password) : null,
+					role: data.role,
+					isActive: data.isActive,
+					emailVerifiedAt: data.emailVerified ? new Date() : null
+				})
+				.returning()
+				.then(rows => rows[0]);
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.USER_CREATED,
+				targetType: "user",
+				targetId: user.id,
+				metadata: { role: user.role }
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.CREATED, "User created successfully", user);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async update(
+		actor: Express.User,
+		id: number,
+		data: UserUpdateSchemaType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User>> {
+		try {
+			const { data: existing } = await this.retrieveOne(id);
+
+			this.assertCanManage(actor, existing, data);
+			await this.assertUnique(data, id);
+
+			// A new address is unverified, unless the verification is set along with it
+			const emailChanged = data.email !== undefined && data.email !== existing.email;
+			let emailVerifiedAt: Date | null | undefined = emailChanged ? null : undefined;
+			if (data.emailVerified !== undefined) {
+				emailVerifiedAt = data.emailVerified
+					? (!emailChanged && existing.emailVerifiedAt) || new Date()
+					: null;
+			}
+
+			const { password: _, ...user } = await this.getDb()
+				.update(users)
+				.set({
+					name: data.name,
+					username: data.username,
+					email: data.email,
+					password: data.password ? await AppHelpers.hashPassword(data.password) : undefined,
+					role: data.role,
+					isActive: data.isActive,
+					emailVerifiedAt
+				})
+				.where(eq(users.id, id))
+				.returning()
+				.then(rows => rows[0]);
+
+			if (data.isActive === false || data.password) await this.signOut([id]);
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.USER_UPDATED,
+				targetType: "user",
+				targetId: id,
+				changes: auditChanges(existing, data.password ? { ...user, password: true } : user)
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "User updated successfully", user);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	async delete(
+		actor: Express.User,
+		id: number,
+		client: AuditContext
+	): Promise<ServiceApiResponse<null>> {
+		try {
+			const { data: existing } = await this.retrieveOne(id);
+
+			if (existing.id === actor.id) {
+				return ServiceResponse.createRejectResponse(
+					StatusCodes.BAD_REQUEST,
+					"You cannot delete your own account"
+				);
+			}
+
+			this.assertCanManage(actor, existing, {});
+
+			// Sessions, tokens and API keys of the user are removed along with it
+			await this.getDb().delete(users).where(eq(users.id, id));
+
+			await new AuditService().record(client, {
+				action: AUDIT_ACTION_LIST.USER_DELETED,
+				targetType: "user",
+				targetId: id,
+				metadata: { username: existing.username, email: existing.email, role: existing.role }
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "User deleted successfully", null);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * Activate or deactivate many users at once
+	 *
+	 * @param actor
+	 * @param ids
+	 * @param isActive
+	 * @param client
+	 */
+	async bulkSetActive(
+		actor: Express.User,
+		ids: number[],
+		isActive: boolean,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User[]>> {
+		return this.bulkUpdate(actor, ids, { isActive }, client);
+	}
+
+	/**
+	 * Change the role of many users at once
+	 *
+	 * @param actor
+	 * @param ids
+	 * @param role
+	 * @param client
+	 */
+	async bulkSetRole(
+		actor: Express.User,
+		ids: number[],
+		role: RoleType,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User[]>> {
+		return this.bulkUpdate(actor, ids, { role }, client);
+	}
+
+	/**
+	 * Apply the same change to every given user in a single transaction
+	 * Nothing is changed when any of the users is missing or cannot be managed by the actor
+	 *
+	 * @param actor
+	 * @param ids
+	 * @param changes
+	 * @param client
+	 */
+	private async bulkUpdate(
+		actor: Express.User,
+		ids: number[],
+		changes: UserChanges,
+		client: AuditContext
+	): Promise<ServiceApiResponse<Express.User[]>> {
+		try {
+			const userIds = [...new Set(ids)];
+
+			const data = await this.db.transaction(async tx => {
+				this.setTransaction(tx);
+
+				try {
+					const existing = await this.getDb().query.users.findMany({
+						where: inArray(users.id, userIds),
+						columns: publicColumns
+					});
+
+					const missing = userIds.filter(id => !existing.some(user => user.id === id));
+					if (missing.length > 0) {
+						return ServiceResponse.createRejectResponse(
+							StatusCodes.NOT_FOUND,
+							`Users not found: ${missing.join(", ")}`
+						);
+					}
+
+					existing.forEach(user => this.assertCanManage(actor, user, changes));
+
+					const updated = await this.getDb()
+						.update(users)
+						.set(changes)
+						.where(inArray(users.id, userIds))
+						.returning()
+						.then(rows => rows.map(({ password: _, ...user }) => user));
+
+					if (changes.isActive === false) await this.signOut(userIds);
+
+					const auditService = new AuditService().setTransaction(tx);
+					for (const user of updated) {
+						const before = existing.find(row => row.id === user.id)!;
+						const userChanges = auditChanges(before, user);
+						if (Object.keys(userChanges).length === 0) continue;
+
+						await auditService.record(client, {
+							action: AUDIT_ACTION_LIST.USER_UPDATED,
+							targetType: "user",
+							targetId: user.id,
+							changes: userChanges,
+							metadata: { bulk: true }
+						});
+					}
+
+					return updated;
+				} finally {
+					this.clearTransaction();
+				}
+			});
+
+			return ServiceResponse.createResponse(StatusCodes.OK, "Users updated successfully", data);
+		} catch (error) {
+			return ServiceResponse.createErrorResponse(error);
+		}
+	}
+
+	/**
+	 * End every session and refresh token of the given users
+	 *
+	 * @param userIds
+	 */
+	private async signOut(userIds: number[]): Promise<void> {
+		await this.getDb().delete(sessions).where(inArray(sessions.userId, userIds));
+
+		await this.getDb()
+			.update(refreshTokens)
+			.set({ revokedAt: new Date() })
+			.where(and(inArray(refreshTokens.userId, userIds), isNull(refreshTokens.revokedAt)));
+	}
+
+	/**
+	 * Reject changes the actor is not allowed to make to a user
+	 * Only administrators can manage administrators, and nobody can demote or deactivate themselves
+	 * Setting a password or verifying an email can take over an account, so only administrators do either
+	 *
+	 * @param actor
+	 * @param user
+	 * @param changes
+	 */
+	private assertCanManage(actor: Express.User, user: Express.User, changes: UserChanges): void {
+		if (user.role === ROLE_LIST.ADMIN && actor.role !== ROLE_LIST.ADMIN) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.FORBIDDEN,
+				"Only administrators can manage administrator accounts"
+			);
+		}
+
+		if (
+			(changes.password !== undefined || changes.emailVerified !== undefined) &&
+			actor.role !== ROLE_LIST.ADMIN
+		) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.FORBIDDEN,
+				"Only administrators can set passwords or email verification"
+			);
+		}
+
+		this.assertCanAssignRole(actor, changes.role);
+
+		const demoted = changes.role !== undefined && changes.role !== user.role;
+		if (user.id === actor.id && (demoted || changes.isActive === false)) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.BAD_REQUEST,
+				"You cannot change the role or deactivate your own account"
+			);
+		}
+	}
+
+	private assertCanAssignRole(actor: Express.User, role?: RoleType): void {
+		if (role === ROLE_LIST.ADMIN && actor.role !== ROLE_LIST.ADMIN) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.FORBIDDEN,
+				"Only administrators can grant the administrator role"
+			);
+		}
+	}
+
+	/**
+	 * Reject a username or email that already belongs to another user
+	 *
+	 * @param data
+	 * @param exceptId The user being updated
+	 */
+	private async assertUnique(
+		data: Pick<UserUpdateSchemaType, "username" | "email">,
+		exceptId?: number
+	): Promise<void> {
+		if (!data.username && !data.email) return;
+
+		const existingUser = await this.getDb().query.users.findFirst({
+			where: and(
+				or(
+					data.username ? eq(users.username, data.username) : undefined,
+					data.email ? eq(users.email, data.email) : undefined
+				),
+				exceptId ? ne(users.id, exceptId) : undefined
+			),
+			columns: { email: true }
+		});
+
+		if (existingUser) {
+			ServiceResponse.createRejectResponse(
+				StatusCodes.CONFLICT,
+				existingUser.email === data.email
+					? "Email is already registered"
+					: "Username is already taken"
+			);
+		}
+	}
+}
@@ -0,0 +1,76 @@
+import type { PgTableWithColumns } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { userBulkLimit } from "@/core/constants";
+import { ROLE_LIST } from "@/databases/drizzle/lists";
+import type { SortingHelper } from "@/utils/sortingHelper";
+import { BaseQuerySchema, baseQuerySchemaShape } from "@/validators/baseQuery.schema";
+import {
+	validateArray,
+	validateBoolean,
+	validateEmail,
+	validateEnum,
+	validatePassword,
+	validatePositiveNumber,
+	validateString,
+	validateUsername
+} from "@/validators/commonRules";
+
+// Query string flags arrive as text
+const queryBoolean = (value: unknown) =>
+	value === "true" ? true : value === "false" ? false : value;
+
+export const userQuerySchema = <T extends PgTableWithColumns<any>>(
+	sortingHelper: SortingHelper<T>
+) => {
+	const baseSchema = BaseQuerySchema(sortingHelper);
+
+	return z.preprocess(
+		(data: any) => ({
+			...baseSchema.parse(data),
+			role: data.role,
+			verified: queryBoolean(data.verified),
+			active: queryBoolean(data.active),
+			locked: queryBoolean(data.locked)
+		}),
+		z.object({
+			...baseQuerySchemaShape,
+			role: validateEnum("Role", ROLE_LIST.enumValues).optional(),
+			verified: validateBoolean("Verified").optional(),
+			active: validateBoolean("Active").optional(),
+			locked: validateBoolean("Locked").optional()
+		})
+	);
+};
+
+export const userCreateSchema = z.object({
+	name: validateString("Name", { min: 1, max: 255 }),
+	username: validateUsername,
+	email: validateEmail,
+	// Without a password the user logs in with an email code or sets one through a reset link
+	password: validatePassword.optional(),
+	role: validateEnum("Role", ROLE_LIST.enumValues).optional(),
+	isActive: validateBoolean("Is Active").optional(),
+	emailVerified: validateBoolean("Email Verified").optional()
+});
+
+export const userUpdateSchema = userCreateSchema
+	.partial()
+	.refine(data => Object.keys(data).length > 0, { message: "Nothing to update" });
+
+export const userBulkSchema = z.object({
+	ids: validateArray("User IDs", validatePositiveNumber("User ID"), {
+		min: 1,
+		max: userBulkLimit
+	})
+});
+
+export const userBulkRoleSchema = userBulkSchema.extend({
+	role: validateEnum("Role", ROLE_LIST.enumValues)
+});
+
+export type UserQuerySchemaType = z.infer<ReturnType<typeof userQuerySchema>>;
+export type UserCreateSchemaType = z.infer<typeof userCreateSchema>;
+export type UserUpdateSchemaType = z.infer<typeof userUpdateSchema>;
+export type UserBulkSchemaType = z.infer<typeof userBulkSchema>;
+export type UserBulkRoleSchemaType = z.infer<typeof userBulkRoleSchema>;
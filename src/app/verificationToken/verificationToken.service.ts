@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import { and, desc, eq, gt, isNull, lt, sql } from "drizzle-orm";
+
+import { otpLength, otpMaxAttempts, verificationTokenBytes } from "@/core/constants";
+import DrizzleService from "@/databases/drizzle/service";
+import type { TokenSchemaType, TokenType } from "@/databases/drizzle/types";
+import { tokens } from "@/models/drizzle/token.model";
+import AppHelpers from "@/utils/appHelpers";
+
+/**
+ * Numeric codes are typed in by the user, URL-safe tokens are sent as links
+ */
+export type VerificationTokenFormat = "code" | "token";
+
+export interface VerificationTokenIssueOptions {
+	type: TokenType;
+	format: VerificationTokenFormat;
+	expiryMinutes: number;
+	// The user the token is issued to, also used as the subject when none is given
+	userId?: number;
+	subject?: string;
+}
+
+export type VerificationCodeResult =
+	| { status: "valid"; token: TokenSchemaType }
+	| { status: "invalid" }
+	// The maximum number of attempts was reached, the code can no longer be used
+	| { status: "exhausted" };
+
+export default class VerificationTokenService extends DrizzleService {
+	/**
+	 * Generate a token and store its hash, invalidating previous tokens of the same type and subject
+	 * so that only the most recent one can be used
+	 *
+	 * @param options
+	 * @returns The plain text token, which is never stored
+	 */
+	async issue(options: VerificationTokenIssueOptions): Promise<string> {
+		const subject = this.subjectFor(options);
+
+		const token =
+			options.format === "code"
+				? AppHelpers.OTPGenerator(otpLength)
+				: crypto.randomBytes(verificationTokenBytes).toString("base64url");
+
+		await this.getDb().transaction(async tx => {
+			await tx
+				.update(tokens)
+				.set({ consumedAt: new Date() })
+				.where(
+					and(eq(tokens.subject, subject), eq(tokens.type, options.type), isNull(tokens.consumedAt))
+				);
+
+			await tx.insert(tokens).values({
+				subject,
+				userId: options.userId ?? null,
+				type: options.type,
+				tokenHash: AppHelpers.hashToken(token),
+				expiresAt: AppHelpers.OTPExpiry(options.expiryMinutes)
+			});
+		});
+
+		return token;
+	}
+
+	/**
+	 * The most recently issued token of a subject, used or not, to throttle resending
+	 *
+	 * @param type
+	 * @param subject
+	 */
+	async latest(type: TokenType, subject: string): Promise<TokenSchemaType | undefined> {
+		return this.getDb().query.tokens.findFirst({
+			where: and(eq(tokens.subject, subject), eq(tokens.type, type)),
+			orderBy: desc(tokens.createdAt)
+		});
+	}
+
+	/**
+	 * Consume a URL-safe token, a single statement guarantees it can only be used once
+	 * The token carries enough entropy to be looked up by its hash directly
+	 *
+	 * @param type
+	 * @param token
+	 * @returns The consumed token, or undefined when it is unknown, expired or already used
+	 */
+	async consume(type: TokenType, token: string): Promise<TokenSchemaType | undefined> {
+		return this.getDb()
+			.update(tokens)
+			.set({ consumedAt: new Date() })
+			.where(
+				and(
+					eq(tokens.tokenHash, AppHelpers.hashToken(token)),
+					eq(tokens.type, type),
+					isNull(tokens.consumedAt),
+					gt(tokens.expiresAt, new Date())
+				)
+			)
+			.returning()
+			.then(rows => rows[0]);
+	}
+
+	/**
+	 * Check a numeric code against the active token of a subject and consume it when it matches
+	 * Short codes can be guessed, so every miss counts towards the maximum number of attempts
+	 *
+	 * @param type
+	 * @param subject
+	 * @param code
+	 */
+	async verifyCode(
+		type: TokenType,
+		subject: string,
+		code: string
+	): Promise<VerificationCodeResult> {
+		const token = await this.getDb().query.tokens.findFirst({
+			where: and(
+				eq(tokens.subject, subject),
+				eq(tokens.type, type),
+				isNull(tokens.consumedAt),
+				gt(tokens.expiresAt, new Date())
+			),
+			orderBy: desc(tokens.createdAt)
+		});
+
+		if (!token) return { status: "invalid" };
+
+		if (!AppHelpers.safeCompare(token.tokenHash, AppHelpers.hashToken(code))) {
+			const { attempts } = await this.getDb()
+				.update(tokens)
+				.set({ attempts: sql`${tokens.attempts} + 1` })
+				.where(eq(tokens.id, token.id))
+				.returning({ attempts: tokens.attempts })
+				.then(rows => rows[0]);
+
+			// Lock the code once the maximum number of attempts is reached
+			if (attempts >= otpMaxAttempts) {
+				await this.getDb()
+					.update(tokens)
+					.set({ consumedAt: new Date() })
+					.where(eq(tokens.id, token.id));
+
+				return { status: "exhausted" };
+			}
+
+			return { status: "invalid" };
+		}
+
+		// Consume the code, guarding against concurrent use
+		const consumed = await this.getDb()
+			.update(tokens)
+			.set({ consumedAt: new Date() })
+			.where(and(eq(tokens.id, token.id), isNull(tokens.consumedAt)))
+			.returning()
+			.then(rows => rows[0]);
+
+		return consumed ? { status: "valid", token: consumed } : { status: "invalid" };
+	}
+
+	/**
+	 * Invalidate the unused tokens of a subject
+	 *
+	 * @param type
+	 * @param subject
+	 */
+	async revoke(type: TokenType, subject: string): Promise<void> {
+		await this.getDb()
+			.update(tokens)
+			.set({ consumedAt: new Date() })
+			.where(and(eq(tokens.subject, subject), eq(tokens.type, type), isNull(tokens.consumedAt)));
+	}
+
+	/**
+	 * Delete expired tokens
+	 *
+	 * @returns The number of deleted tokens
+	 */
+	async purgeExpired(): Promise<number> {
+		const deleted = await this.getDb()
+			.delete(tokens)
+			.where(lt(tokens.expiresAt, new Date()))
+			.returning({ id: tokens.id });
+
+		return deleted.length;
+	}
+
+	/**
+	 * The subject of tokens issued to a user
+	 *
+	 * @param userId
+	 */
+	userSubject(userId: number): string {
+		return `user:${userId}`;
+	}
+
+	private subjectFor(options: VerificationTokenIssueOptions): string {
+		if (options.subject) return options.subject;
+		if (options.userId) return this.userSubject(options.userId);
+
+		throw new Error("A verification token needs a user or a subject");
+	}
+}
@@ -1,6 +1,100 @@
 export const origins = ["http://localhost:3000"];
 export const sessionTimeout = 1000 * 60 * 60 * 24 * 7; // 1 week in milliseconds
 export const csrfTimeout = 1000 * 60 * 60; // 1 hour in milliseconds
+export const accessTokenTimeout = 60 * 15; // 15 minutes in seconds
+export const refreshTokenTimeout = 1000 * 60 * 60 * 24 * 30; // 30 days in milliseconds
+export const passwordSaltRounds = 10;
+
+// One-time password settings
+export const otpLength = 6;
+export const otpExpiryMinutes = 5;
+export const otpResendInterval = 1000 * 60; // 1 minute in milliseconds
+export const otpMaxAttempts = 5;
+
+// Verification token settings
+export const verificationTokenBytes = 32; // entropy of URL-safe tokens
+export const verificationTokenPurgeInterval = 1000 * 60 * 60; // 1 hour in milliseconds
+
+// Password reset settings
+export const passwordResetExpiryMinutes = 30;
+export const passwordResetPath = "/reset-password";
+
+// Email verification settings
+export const emailVerificationExpiryMinutes = 60 * 24; // 1 day in minutes
+
+// Brute-force protection settings
+export const loginAttemptWindowMinutes = 15; // failures older than this are forgotten
+export const accountBackoffThreshold = 3; // failures allowed on an account before backing off
+export const ipBackoffThreshold = 10; // higher, as many users can share an address
+export const loginBackoffBaseSeconds = 1; // doubled with every further failure
+export const loginBackoffMaxSeconds = 60 * 15;
+export const accountLockoutThreshold = 10;
+export const accountLockoutMinutes = 15; // doubled with every consecutive lockout
+export const accountLockoutMaxMinutes = 60 * 24;
+export const accountUnlockExpiryMinutes = 60 * 24;
+
+// Two-factor authentication settings (RFC 6238)
+export const twoFactorIssuer = "Express Boilerplate";
+export const totpDigits = 6;
+export const totpStep = 30; // seconds
+export const totpWindow = 1; // accepted time steps before and after the current one
+export const recoveryCodeCount = 10;
+export const twoFactorLoginTimeout = 1000 * 60 * 5; // 5 minutes in milliseconds
+export const twoFactorPath = "/two-factor";
+
+// OAuth settings
+export const oauthStateCookieName = "oauth-state";
+export const oauthStateTimeout = 1000 * 60 * 10; // 10 minutes in milliseconds
+export const oauthSuccessPath = "/";
+export const oauthErrorPath = "/login";
+
+// User management settings
+export const userBulkLimit = 100; // users changed by a single bulk action
+
+// Invitation settings
+export const invitationExpiryDays = 7; // default, can be set per invitation
+export const invitationMaxExpiryDays = 30;
+export const invitationAcceptPath = "/accept-invitation";
+
+// Organization settings
+export const organizationHeader = "x-organization"; // slug or id of the organization
+
+// Impersonation settings
+export const impersonatedByHeader = "x-impersonated-by"; // id of the impersonating administrator
+
+// Audit log settings
+export const auditExportLimit = 10000; // rows in a single CSV export
+export const auditRedactedFields = ["password", "secret", "keyHash", "tokenHash"];
+
+// Email configuration used for account related emails
+export const authEmailConfigName = "default_smtp";
+export const secretMask = "********"; // replaces stored secrets in responses
+
+// Email template settings
+// Templates sent by the application, their global versions cannot be deleted
+// Their data carries one-time codes and links, which are never returned to clients
+export const systemEmailTemplateNames = [
+	"login_otp",
+	"password_reset",
+	"account_unlock",
+	"email_verification",
+	"invitation"
+];
+export const emailTemplateMaxRepeat = 100; // iterations of a single `times` block
+export const emailTemplateMaxIterations = 1000; // `times` iterations of a rendering, nested blocks included
+export const emailTemplateMaxRenderedSize = 1024 * 1024; // 1 MB of rendered HTML
+
+// Email outbox settings
+export const emailOutboxPollInterval = 1000 * 5; // 5 seconds in milliseconds
+export const emailOutboxBatchSize = 10; // messages claimed by a single poll
+export const emailOutboxMaxAttempts = 5; // before a message is moved to the dead letter state
+export const emailOutboxRetryBaseSeconds = 30; // doubled with every further attempt
+export const emailOutboxRetryMaxSeconds = 60 * 60;
+export const emailOutboxLockTimeout = 1000 * 60 * 10; // claims older than this are retried
+
+// Email transport settings
+export const emailTransportIdleTimeout = 1000 * 60 * 10; // pooled connections unused for longer are closed
+export const emailTransportSweepInterval = 1000 * 60; // 1 minute in milliseconds
 
 // Domain blacklist for cookies
 export const blackListDomains = [
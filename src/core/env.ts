@@ -7,7 +7,36 @@ const smtpEnvSchema = z.object({
 	SMTP_HOST: validateString("SMTP_HOST"),
 	SMTP_PORT: validateEnvNumber("SMTP_PORT", { min: 1, max: 65535, int: true }),
 	SMTP_USER: validateString("SMTP_USER"),
-	SMTP_PASSWORD: validateString("SMTP_PASSWORD")
+	SMTP_PASSWORD: validateString("SMTP_PASSWORD"),
+	// Encrypts the stored SMTP passwords, `id:secret` pairs where the first one is current
+	CREDENTIAL_ENCRYPTION_KEYS: validateString("CREDENTIAL_ENCRYPTION_KEYS", {
+		regex: /^[\w-]+:[^,]{32,}(,[\w-]+:[^,]{32,})*$/,
+		regexMsg:
+			"CREDENTIAL_ENCRYPTION_KEYS must list comma separated id:secret pairs with secrets of at least 32 characters"
+	})
+});
+
+// Each provider is only enabled when its credentials are set
+const oauthEnvSchema = z.object({
+	GOOGLE_CLIENT_ID: validateString("GOOGLE_CLIENT_ID").optional(),
+	GOOGLE_CLIENT_SECRET: validateString("GOOGLE_CLIENT_SECRET").optional(),
+	GITHUB_CLIENT_ID: validateString("GITHUB_CLIENT_ID").optional(),
+	GITHUB_CLIENT_SECRET: validateString("GITHUB_CLIENT_SECRET").optional(),
+	OIDC_PROVIDER_NAME: validateString("OIDC_PROVIDER_NAME").optional(),
+	OIDC_ISSUER_URL: validateString("OIDC_ISSUER_URL").optional(),
+	OIDC_CLIENT_ID: validateString("OIDC_CLIENT_ID").optional(),
+	OIDC_CLIENT_SECRET: validateString("OIDC_CLIENT_SECRET").optional(),
+	OIDC_SCOPE: validateString("OIDC_SCOPE").optional(),
+	OAUTH_MOCK_ENABLED: validateEnum("OAUTH_MOCK_ENABLED", ["true", "false"]).optional()
+});
+
+// Credentials of the accounts created by the user seeder, defaults are used in development
+const seedEnvSchema = z.object({
+	SEED_ADMIN_EMAIL: validateString("SEED_ADMIN_EMAIL").optional(),
+	SEED_ADMIN_PASSWORD: validateString("SEED_ADMIN_PASSWORD").optional(),
+	SEED_SUPERVISOR_EMAIL: validateString("SEED_SUPERVISOR_EMAIL").optional(),
+	SEED_SUPERVISOR_PASSWORD: validateString("SEED_SUPERVISOR_PASSWORD").optional(),
+	SEED_MEMBER_PASSWORD: validateString("SEED_MEMBER_PASSWORD").optional()
 });
 
 export const cookieSchema = z.object({
@@ -18,11 +47,21 @@ export const envSchema = z.object({
 	DATABASE_URL: validateString("DATABASE_URL"),
 	PORT: validateEnvNumber("PORT", { min: 1, int: true }),
 	SECRET: validateString("SECRET"),
+	SESSION_COOKIE_NAME: validateString("SESSION_COOKIE_NAME").optional(),
+	JWT_SECRET: validateString("JWT_SECRET").optional(),
+	TWO_FACTOR_REQUIRED_FOR_ADMINS: validateEnum("TWO_FACTOR_REQUIRED_FOR_ADMINS", [
+		"true",
+		"false"
+	]).optional(),
 	NODE_ENV: validateEnum("NODE_ENV", ["development", "production"]),
 	ORIGIN_URL: validateString("ORIGIN_URL"),
 	API_URL: validateString("API_URL"),
+	// Base domain of organization subdomains, e.g. `example.com` for `acme.example.com`
+	TENANT_DOMAIN: validateString("TENANT_DOMAIN").optional(),
 	...cookieSchema.shape,
-	...smtpEnvSchema.shape
+	...smtpEnvSchema.shape,
+	...oauthEnvSchema.shape,
+	...seedEnvSchema.shape
 });
 
 const Env = envSchema.safeParse(process.env);
@@ -0,0 +1,61 @@
+import dotenv from "dotenv";
+import { eq } from "drizzle-orm";
+
+import DrizzleService from "@/databases/drizzle/service";
+import { email } from "@/models/drizzle/email.model";
+import { CredentialCipher } from "@/utils/credentialCipher";
+
+dotenv.config();
+
+/**
+ * Encrypt the SMTP passwords still stored in plain text, and re-encrypt the ones
+ * encrypted with a previous key once a new key is prepended to `CREDENTIAL_ENCRYPTION_KEYS`
+ * Safe to run repeatedly, passwords encrypted with the current key are left untouched
+ */
+class CredentialEncryptor extends DrizzleService {
+	async run(): Promise<void> {
+		console.log("🔐 Encrypting stored SMTP credentials...");
+
+		const { encrypted, reEncrypted, unchanged } = await this.db.transaction(async tx => {
+			const counts = { encrypted: 0, reEncrypted: 0, unchanged: 0 };
+
+			const configs = await tx
+				.select({ id: email.id, password: email.password })
+				.from(email)
+				.for("update");
+
+			for (const config of configs) {
+				if (CredentialCipher.isCurrent(config.password)) {
+					counts.unchanged++;
+					continue;
+				}
+
+				const isEncrypted = CredentialCipher.isEncrypted(config.password);
+				const password = isEncrypted ? CredentialCipher.decrypt(config.password) : config.password;
+
+				await tx
+					.update(email)
+					.set({ password: CredentialCipher.encrypt(password) })
+					.where(eq(email.id, config.id));
+
+				if (isEncrypted) counts.reEncrypted++;
+				else counts.encrypted++;
+			}
+
+			return counts;
+		});
+
+		console.log(`🔐 Credential encryption completed:`);
+		console.log(`  - Encrypted: ${encrypted} plain text passwords`);
+		console.log(`  - Re-encrypted: ${reEncrypted} passwords of previous keys`);
+		console.log(`  - Unchanged: ${unchanged} passwords already using the current key`);
+	}
+}
+
+new CredentialEncryptor()
+	.run()
+	.then(() => process.exit(0))
+	.catch(error => {
+		console.error("❌ Credential encryption failed:", error);
+		process.exit(1);
+	});
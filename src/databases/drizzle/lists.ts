@@ -5,9 +5,144 @@ export const ROLE_LIST = {
 	enumValues: ["ADMIN", "SUPERVISOR", "MEMBER"]
 } as const;
 
+export const ORGANIZATION_ROLE_LIST = {
+	OWNER: "OWNER",
+	ADMIN: "ADMIN",
+	MEMBER: "MEMBER",
+	enumValues: ["OWNER", "ADMIN", "MEMBER"]
+} as const;
+
 export const TOKEN_LIST = {
 	PASSWORD_RESET: "PASSWORD_RESET",
 	EMAIL_VERIFICATION: "EMAIL_VERIFICATION",
 	LOGIN_OTP: "LOGIN_OTP",
-	enumValues: ["PASSWORD_RESET", "EMAIL_VERIFICATION", "LOGIN_OTP"]
+	ACCOUNT_UNLOCK: "ACCOUNT_UNLOCK",
+	INVITATION: "INVITATION",
+	enumValues: ["PASSWORD_RESET", "EMAIL_VERIFICATION", "LOGIN_OTP", "ACCOUNT_UNLOCK", "INVITATION"]
+} as const;
+
+export const LOGIN_ATTEMPT_SCOPE_LIST = {
+	ACCOUNT: "ACCOUNT",
+	IP: "IP",
+	enumValues: ["ACCOUNT", "IP"]
+} as const;
+
+export const AUDIT_ACTION_LIST = {
+	LOGIN: "LOGIN",
+	LOGIN_FAILED: "LOGIN_FAILED",
+	LOGOUT: "LOGOUT",
+	ACCOUNT_LOCKED: "ACCOUNT_LOCKED",
+	ACCOUNT_UNLOCKED: "ACCOUNT_UNLOCKED",
+	PASSWORD_RESET: "PASSWORD_RESET",
+	TWO_FACTOR_ENABLED: "TWO_FACTOR_ENABLED",
+	TWO_FACTOR_DISABLED: "TWO_FACTOR_DISABLED",
+	ROLE_PERMISSIONS_UPDATED: "ROLE_PERMISSIONS_UPDATED",
+	EMAIL_CONFIG_CREATED: "EMAIL_CONFIG_CREATED",
+	EMAIL_CONFIG_UPDATED: "EMAIL_CONFIG_UPDATED",
+	EMAIL_CONFIG_DELETED: "EMAIL_CONFIG_DELETED",
+	API_KEY_CREATED: "API_KEY_CREATED",
+	API_KEY_ROTATED: "API_KEY_ROTATED",
+	API_KEY_REVOKED: "API_KEY_REVOKED",
+	API_KEY_USED: "API_KEY_USED",
+	USER_CREATED: "USER_CREATED",
+	USER_UPDATED: "USER_UPDATED",
+	USER_DELETED: "USER_DELETED",
+	INVITATION_CREATED: "INVITATION_CREATED",
+	INVITATION_RESENT: "INVITATION_RESENT",
+	INVITATION_REVOKED: "INVITATION_REVOKED",
+	INVITATION_ACCEPTED: "INVITATION_ACCEPTED",
+	ORGANIZATION_CREATED: "ORGANIZATION_CREATED",
+	ORGANIZATION_UPDATED: "ORGANIZATION_UPDATED",
+	ORGANIZATION_DELETED: "ORGANIZATION_DELETED",
+	ORGANIZATION_MEMBER_ADDED: "ORGANIZATION_MEMBER_ADDED",
+	ORGANIZATION_MEMBER_UPDATED: "ORGANIZATION_MEMBER_UPDATED",
+	ORGANIZATION_MEMBER_REMOVED: "ORGANIZATION_MEMBER_REMOVED",
+	IMPERSONATION_STARTED: "IMPERSONATION_STARTED",
+	IMPERSONATION_STOPPED: "IMPERSONATION_STOPPED",
+	EMAIL_OUTBOX_REQUEUED: "EMAIL_OUTBOX_REQUEUED",
+	EMAIL_TEMPLATE_CREATED: "EMAIL_TEMPLATE_CREATED",
+	EMAIL_TEMPLATE_UPDATED: "EMAIL_TEMPLATE_UPDATED",
+	EMAIL_TEMPLATE_DELETED: "EMAIL_TEMPLATE_DELETED",
+	EMAIL_TEMPLATE_ROLLED_BACK: "EMAIL_TEMPLATE_ROLLED_BACK",
+	enumValues: [
+		"LOGIN",
+		"LOGIN_FAILED",
+		"LOGOUT",
+		"ACCOUNT_LOCKED",
+		"ACCOUNT_UNLOCKED",
+		"PASSWORD_RESET",
+		"TWO_FACTOR_ENABLED",
+		"TWO_FACTOR_DISABLED",
+		"ROLE_PERMISSIONS_UPDATED",
+		"EMAIL_CONFIG_CREATED",
+		"EMAIL_CONFIG_UPDATED",
+		"EMAIL_CONFIG_DELETED",
+		"API_KEY_CREATED",
+		"API_KEY_ROTATED",
+		"API_KEY_REVOKED",
+		"API_KEY_USED",
+		"USER_CREATED",
+		"USER_UPDATED",
+		"USER_DELETED",
+		"INVITATION_CREATED",
+		"INVITATION_RESENT",
+		"INVITATION_REVOKED",
+		"INVITATION_ACCEPTED",
+		"ORGANIZATION_CREATED",
+		"ORGANIZATION_UPDATED",
+		"ORGANIZATION_DELETED",
+		"ORGANIZATION_MEMBER_ADDED",
+		"ORGANIZATION_MEMBER_UPDATED",
+		"ORGANIZATION_MEMBER_REMOVED",
+		"IMPERSONATION_STARTED",
+		"IMPERSONATION_STOPPED",
+		"EMAIL_OUTBOX_REQUEUED",
+		"EMAIL_TEMPLATE_CREATED",
+		"EMAIL_TEMPLATE_UPDATED",
+		"EMAIL_TEMPLATE_DELETED",
+		"EMAIL_TEMPLATE_ROLLED_BACK"
+	]
+} as const;
+
+// Derived from the timestamps of an invitation, not stored
+export const INVITATION_STATUS_LIST = {
+	PENDING: "PENDING",
+	ACCEPTED: "ACCEPTED",
+	REVOKED: "REVOKED",
+	EXPIRED: "EXPIRED",
+	enumValues: ["PENDING", "ACCEPTED", "REVOKED", "EXPIRED"]
+} as const;
+
+// Messages are retried until sent, or moved to the dead letter state once out of attempts
+export const EMAIL_OUTBOX_STATUS_LIST = {
+	PENDING: "PENDING",
+	SENDING: "SENDING",
+	SENT: "SENT",
+	DEAD: "DEAD",
+	enumValues: ["PENDING", "SENDING", "SENT", "DEAD"]
+} as const;
+
+export const EMAIL_LOG_STATUS_LIST = {
+	SENT: "SENT",
+	FAILED: "FAILED",
+	enumValues: ["SENT", "FAILED"]
+} as const;
+
+export const PERMISSION_LIST = {
+	EMAIL_READ: "email:read",
+	EMAIL_WRITE: "email:write",
+	USER_READ: "user:read",
+	USER_WRITE: "user:write",
+	ROLE_MANAGE: "role:manage",
+	API_KEY_MANAGE: "api-key:manage",
+	AUDIT_READ: "audit:read",
+	enumValues: [
+		"email:read",
+		"email:write",
+		"user:read",
+		"user:write",
+		"role:manage",
+		"api-key:manage",
+		"audit:read"
+	]
 } as const;
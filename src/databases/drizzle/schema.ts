@@ -1,11 +1,45 @@
 // AUTO‑GENERATED by update‑schema.mjs. Do not edit by hand.
 
+import * as ApiKeySchema from "@/models/drizzle/apiKey.model";
+import * as AuditEventSchema from "@/models/drizzle/auditEvent.model";
 import * as EmailSchema from "@/models/drizzle/email.model";
+import * as EmailLogSchema from "@/models/drizzle/emailLog.model";
+import * as EmailOutboxSchema from "@/models/drizzle/emailOutbox.model";
 import * as EmailTemplateSchema from "@/models/drizzle/emailTemplate.model";
+import * as EmailTemplateVersionSchema from "@/models/drizzle/emailTemplateVersion.model";
+import * as InvitationSchema from "@/models/drizzle/invitation.model";
+import * as LoginAttemptSchema from "@/models/drizzle/loginAttempt.model";
+import * as OauthAccountSchema from "@/models/drizzle/oauthAccount.model";
+import * as OrganizationSchema from "@/models/drizzle/organization.model";
+import * as OrganizationMemberSchema from "@/models/drizzle/organizationMember.model";
+import * as RecoveryCodeSchema from "@/models/drizzle/recoveryCode.model";
+import * as RefreshTokenSchema from "@/models/drizzle/refreshToken.model";
+import * as RolePermissionSchema from "@/models/drizzle/rolePermission.model";
+import * as SessionSchema from "@/models/drizzle/session.model";
+import * as TokenSchema from "@/models/drizzle/token.model";
+import * as TwoFactorSecretSchema from "@/models/drizzle/twoFactorSecret.model";
+import * as UserSchema from "@/models/drizzle/user.model";
 
 const schema = {
+	...ApiKeySchema,
+	...AuditEventSchema,
 	...EmailSchema,
-	...EmailTemplateSchema
+	...EmailLogSchema,
+	...EmailOutboxSchema,
+	...EmailTemplateSchema,
+	...EmailTemplateVersionSchema,
+	...InvitationSchema,
+	...LoginAttemptSchema,
+	...OauthAccountSchema,
+	...OrganizationSchema,
+	...OrganizationMemberSchema,
+	...RecoveryCodeSchema,
+	...RefreshTokenSchema,
+	...RolePermissionSchema,
+	...SessionSchema,
+	...TokenSchema,
+	...TwoFactorSecretSchema,
+	...UserSchema
 };
 
 export default schema;
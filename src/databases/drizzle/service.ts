@@ -1,11 +1,18 @@
+import { type SQL, and, eq, isNull, or, sql } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+
 import db from "@/databases/drizzle/connection";
 
 // Define the transaction type (adjust based on your Drizzle setup)
-type DrizzleTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DrizzleTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A table whose rows belong to an organization, or are global when they have none
+type TenantTable = { organizationId: PgColumn };
 
 export default abstract class DrizzleService {
 	protected db: typeof db;
 	private currentTx: DrizzleTransaction | null = null;
+	private currentOrganizationId: number | null = null;
 
 	constructor() {
 		this.db = db;
@@ -23,8 +30,58 @@ export default abstract class DrizzleService {
 		return this;
 	}
 
+	// Set the organization tenant-owned queries of the service instance are scoped to
+	setOrganization(organizationId: number | null | undefined): this {
+		this.currentOrganizationId = organizationId ?? null;
+		return this;
+	}
+
 	// Get the appropriate database connection
 	protected getDb(): typeof db | DrizzleTransaction {
 		return this.currentTx || this.db;
 	}
+
+	protected getOrganizationId(): number | null {
+		return this.currentOrganizationId;
+	}
+
+	/**
+	 * Match the rows of the current organization, or the global rows when no organization is set
+	 * Add it to the conditions of every query on a tenant-owned table
+	 *
+	 * @param table
+	 */
+	protected tenantScope(table: TenantTable): SQL {
+		return this.currentOrganizationId
+			? eq(table.organizationId, this.currentOrganizationId)
+			: isNull(table.organizationId);
+	}
+
+	/**
+	 * Match the rows of the current organization along with the global rows they override
+	 * Order by `tenantPriority` so that the row of the organization comes first
+	 *
+	 * @param table
+	 */
+	protected tenantOrGlobalScope(table: TenantTable): SQL {
+		return this.currentOrganizationId
+			? or(eq(table.organizationId, this.currentOrganizationId), isNull(table.organizationId))!
+			: isNull(table.organizationId);
+	}
+
+	/**
+	 * Combine conditions with the tenant scope of the table
+	 * Drizzle does not scope queries by itself, so every query on a tenant-owned table builds its
+	 * conditions with this helper, or with `tenantOrGlobalScope` where global rows are fallbacks
+	 *
+	 * @param table
+	 * @param conditions
+	 */
+	protected scopedWhere(table: TenantTable, ...conditions: (SQL | undefined)[]): SQL {
+		return and(this.tenantScope(table), ...conditions)!;
+	}
+
+	protected tenantPriority(table: TenantTable): SQL {
+		return sql`${table.organizationId} asc nulls last`;
+	}
 }
@@ -1,14 +1,65 @@
 import type { InferSelectModel } from "drizzle-orm";
 
-import { ROLE_LIST, TOKEN_LIST } from "@/databases/drizzle/lists";
+import {
+	AUDIT_ACTION_LIST,
+	EMAIL_LOG_STATUS_LIST,
+	EMAIL_OUTBOX_STATUS_LIST,
+	INVITATION_STATUS_LIST,
+	LOGIN_ATTEMPT_SCOPE_LIST,
+	ORGANIZATION_ROLE_LIST,
+	PERMISSION_LIST,
+	ROLE_LIST,
+	TOKEN_LIST
+} from "@/databases/drizzle/lists";
+import type { apiKeys } from "@/models/drizzle/apiKey.model";
+import type { auditEvents } from "@/models/drizzle/auditEvent.model";
 import type { email } from "@/models/drizzle/email.model";
+import type { emailLogs } from "@/models/drizzle/emailLog.model";
+import type { emailOutbox } from "@/models/drizzle/emailOutbox.model";
 import type { emailTemplates } from "@/models/drizzle/emailTemplate.model";
+import type { emailTemplateVersions } from "@/models/drizzle/emailTemplateVersion.model";
+import type { invitations } from "@/models/drizzle/invitation.model";
+import type { loginAttempts } from "@/models/drizzle/loginAttempt.model";
+import type { oauthAccounts } from "@/models/drizzle/oauthAccount.model";
+import type { organizations } from "@/models/drizzle/organization.model";
+import type { organizationMembers } from "@/models/drizzle/organizationMember.model";
+import type { recoveryCodes } from "@/models/drizzle/recoveryCode.model";
+import type { refreshTokens } from "@/models/drizzle/refreshToken.model";
+import type { rolePermissions } from "@/models/drizzle/rolePermission.model";
+import type { sessions } from "@/models/drizzle/session.model";
+import type { tokens } from "@/models/drizzle/token.model";
+import type { twoFactorSecrets } from "@/models/drizzle/twoFactorSecret.model";
+import type { users } from "@/models/drizzle/user.model";
 
 export type EmailTemplateSchemaType = InferSelectModel<typeof emailTemplates>;
+export type EmailTemplateVersionSchemaType = InferSelectModel<typeof emailTemplateVersions>;
 export type EmailSchemaType = InferSelectModel<typeof email>;
+export type EmailOutboxSchemaType = InferSelectModel<typeof emailOutbox>;
+export type EmailLogSchemaType = InferSelectModel<typeof emailLogs>;
+export type UserSchemaType = InferSelectModel<typeof users>;
+export type SessionSchemaType = InferSelectModel<typeof sessions>;
+export type TokenSchemaType = InferSelectModel<typeof tokens>;
+export type RolePermissionSchemaType = InferSelectModel<typeof rolePermissions>;
+export type RefreshTokenSchemaType = InferSelectModel<typeof refreshTokens>;
+export type ApiKeySchemaType = InferSelectModel<typeof apiKeys>;
+export type OAuthAccountSchemaType = InferSelectModel<typeof oauthAccounts>;
+export type TwoFactorSecretSchemaType = InferSelectModel<typeof twoFactorSecrets>;
+export type RecoveryCodeSchemaType = InferSelectModel<typeof recoveryCodes>;
+export type LoginAttemptSchemaType = InferSelectModel<typeof loginAttempts>;
+export type AuditEventSchemaType = InferSelectModel<typeof auditEvents>;
+export type InvitationSchemaType = InferSelectModel<typeof invitations>;
+export type OrganizationSchemaType = InferSelectModel<typeof organizations>;
+export type OrganizationMemberSchemaType = InferSelectModel<typeof organizationMembers>;
 
 /**
  * Enum Schema Types
  */
 export type RoleType = (typeof ROLE_LIST.enumValues)[number];
+export type OrganizationRoleType = (typeof ORGANIZATION_ROLE_LIST.enumValues)[number];
 export type TokenType = (typeof TOKEN_LIST.enumValues)[number];
+export type PermissionType = (typeof PERMISSION_LIST.enumValues)[number];
+export type LoginAttemptScopeType = (typeof LOGIN_ATTEMPT_SCOPE_LIST.enumValues)[number];
+export type AuditActionType = (typeof AUDIT_ACTION_LIST.enumValues)[number];
+export type InvitationStatusType = (typeof INVITATION_STATUS_LIST.enumValues)[number];
+export type EmailOutboxStatusType = (typeof EMAIL_OUTBOX_STATUS_LIST.enumValues)[number];
+export type EmailLogStatusType = (typeof EMAIL_LOG_STATUS_LIST.enumValues)[number];
@@ -1,6 +1,11 @@
 import Handlebars from "handlebars";
 import nodemailer, { type SendMailOptions, type Transporter } from "nodemailer";
 
+import {
+	emailTemplateMaxIterations,
+	emailTemplateMaxRenderedSize,
+	emailTemplateMaxRepeat
+} from "@/core/constants";
 import {
 	type EmailConfigSchemaType,
 	type EmailMessageSchemaType,
@@ -9,12 +14,224 @@ import {
 	emailMessageSchema
 } from "@/mailer/schema";
 
+// The outcome of a send, the rendered HTML is set whenever rendering succeeded
+export interface EmailSendResult {
+	success: boolean;
+	messageId?: string;
+	response?: string; // The final reply of the SMTP server
+	html?: string;
+	size?: number; // Size of the rendered HTML in bytes
+	error?: string;
+}
+
+// Shared by the nested blocks of a rendering, so that they cannot multiply their iterations
+interface RenderBudget {
+	iterations: number;
+}
+
+let helpersRegistered = false;
+
+/**
+ * Register the built-in Handlebars helpers available to every email template
+ * Helpers are global to Handlebars, so they are only registered once
+ */
+export function registerHandlebarsHelpers(): void {
+	if (helpersRegistered) return;
+
+	// Date formatting helper
+	Handlebars.registerHelper("formatDate", (date: Date | string, format?: string) => {
+		try {
+			const d = new Date(date);
+			if (isNaN(d.getTime())) return date;
+
+			// Simple format options
+			switch (format) {
+				case "short":
+					return d.toLocaleDateString();
+				case "long":
+					return d.toLocaleDateString("en-US", {
+						year: "numeric",
+						month: "long",
+						day: "numeric"
+					});
+				case "time":
+					return d.toLocaleTimeString();
+				case "datetime":
+					return d.toLocaleString();
+				default:
+					return d.toLocaleDateString();
+			}
+		} catch (error) {
+			return date;
+		}
+	});
+
+	// Currency formatting helper
+	Handlebars.registerHelper("formatCurrency", (amount: number, currency: string = "USD") => {
+		try {
+			return new Intl.NumberFormat("en-US", {
+				style: "currency",
+				currency: currency
+			}).format(amount);
+		} catch (error) {
+			return amount;
+		}
+	});
+
+	// Number formatting helper
+	Handlebars.registerHelper("formatNumber", (number: number, decimals?: number) => {
+		try {
+			return new Intl.NumberFormat("en-US", {
+				minimumFractionDigits: decimals,
+				maximumFractionDigits: decimals
+			}).format(number);
+		} catch (error) {
+			return number;
+		}
+	});
+
+	// Conditional helpers
+	Handlebars.registerHelper("ifEquals", function (this: any, arg1: any, arg2: any, options: any) {
+		return arg1 == arg2 ? options.fn(this) : options.inverse(this);
+	});
+
+	Handlebars.registerHelper(
+		"ifNotEquals",
+		function (this: any, arg1: any, arg2: any, options: any) {
+			return arg1 != arg2 ? options.fn(this) : options.inverse(this);
+		}
+	);
+
+	Handlebars.registerHelper(
+		"ifGreater",
+		function (this: any, arg1: number, arg2: number, options: any) {
+			return arg1 > arg2 ? options.fn(this) : options.inverse(this);
+		}
+	);
+
+	Handlebars.registerHelper(
+		"ifLess",
+		function (this: any, arg1: number, arg2: number, options: any) {
+			return arg1 < arg2 ? options.fn(this) : options.inverse(this);
+		}
+	);
+
+	// Array/Object helpers
+	Handlebars.registerHelper("length", (array: any[]) => {
+		return Array.isArray(array) ? array.length : 0;
+	});
+
+	Handlebars.registerHelper("isEmpty", (array: any[]) => {
+		return !Array.isArray(array) || array.length === 0;
+	});
+
+	Handlebars.registerHelper("isNotEmpty", (array: any[]) => {
+		return Array.isArray(array) && array.length > 0;
+	});
+
+	// Math helpers
+	Handlebars.registerHelper("add", (a: number, b: number) => a + b);
+	Handlebars.registerHelper("subtract", (a: number, b: number) => a - b);
+	Handlebars.registerHelper("multiply", (a: number, b: number) => a * b);
+	Handlebars.registerHelper("divide", (a: number, b: number) => (b !== 0 ? a / b : 0));
+	Handlebars.registerHelper("modulo", (a: number, b: number) => (b !== 0 ? a % b : 0));
+
+	// String helpers
+	Handlebars.registerHelper("uppercase", (str: string) => str?.toUpperCase() || "");
+	Handlebars.registerHelper("lowercase", (str: string) => str?.toLowerCase() || "");
+	Handlebars.registerHelper("capitalize", (str: string) => {
+		if (!str) return "";
+		return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
+	});
+
+	Handlebars.registerHelper("truncate", (str: string, length: number) => {
+		if (!str || str.length <= length) return str;
+		return str.substring(0, length) + "...";
+	});
+
+	// Utility helpers
+	Handlebars.registerHelper("json", (obj: any) => JSON.stringify(obj));
+	Handlebars.registerHelper("currentYear", () => new Date().getFullYear());
+	Handlebars.registerHelper("currentDate", () => new Date().toLocaleDateString());
+
+	// Loop helpers, bounded so that a template cannot keep the server rendering
+	Handlebars.registerHelper("times", function (this: any, n: number, options: any) {
+		if (n > emailTemplateMaxRepeat) {
+			throw new Error(`The times helper repeats a block at most ${emailTemplateMaxRepeat} times`);
+		}
+
+		const budget: RenderBudget | undefined = options.data?.renderBudget;
+
+		let result = "";
+		for (let i = 0; i < n; i++) {
+			if (budget && --budget.iterations < 0) {
+				throw new Error(
+					`A template repeats blocks at most ${emailTemplateMaxIterations} times in total`
+				);
+			}
+
+			result += options.fn({ index: i, number: i + 1 });
+			assertRenderedSize(result);
+		}
+		return result;
+	});
+
+	helpersRegistered = true;
+}
+
+/**
+ * Render a compiled template within the iteration budget and size limit
+ *
+ * @param template
+ * @param data
+ */
+function renderWithinLimits(template: Handlebars.TemplateDelegate, data: TemplateDataType): string {
+	const renderBudget: RenderBudget = { iterations: emailTemplateMaxIterations };
+	const html = template(data, { data: { renderBudget } });
+
+	assertRenderedSize(html);
+
+	return html;
+}
+
+function assertRenderedSize(html: string): void {
+	if (Buffer.byteLength(html) > emailTemplateMaxRenderedSize) {
+		throw new Error(
+			`The rendered template exceeds the limit of ${emailTemplateMaxRenderedSize} bytes`
+		);
+	}
+}
+
+/**
+ * Render a template with the built-in helpers, e.g. to preview it
+ *
+ * @param templateHtml
+ * @param data
+ */
+export function renderEmailTemplate(templateHtml: string, data: TemplateDataType = {}): string {
+	registerHandlebarsHelpers();
+
+	return renderWithinLimits(Handlebars.compile(templateHtml), data);
+}
+
+/**
+ * Render a subject with the built-in helpers
+ * Subjects are plain text, so the data is not HTML escaped
+ *
+ * @param templateSubject
+ * @param data
+ */
+export function renderEmailSubject(templateSubject: string, data: TemplateDataType = {}): string {
+	registerHandlebarsHelpers();
+
+	return renderWithinLimits(Handlebars.compile(templateSubject, { noEscape: true }), data);
+}
+
 // Email service class with Handlebars support
 export class EmailSMTPService {
 	private transporter: Transporter;
 	private defaultFrom: string;
 	private templateCache = new Map<string, Handlebars.TemplateDelegate>();
-	private helpersRegistered = false;
 
 	constructor(config: EmailConfigSchemaType) {
 		// Validate configuration
@@ -25,6 +242,7 @@ export class EmailSMTPService {
 			port: validConfig.port,
 			secure: validConfig.secure,
 			auth: validConfig.auth,
+			...(validConfig.pool && { pool: true }),
 			...(validConfig.service && { service: validConfig.service }),
 			...(validConfig.tls && { tls: validConfig.tls })
 		});
@@ -32,139 +250,7 @@ export class EmailSMTPService {
 		this.defaultFrom = validConfig.auth.user;
 
 		// Initialize built-in helpers
-		this.initializeHandlebars();
-	}
-
-	// Initialize Handlebars with built-in helpers
-	private initializeHandlebars(): void {
-		if (this.helpersRegistered) return;
-
-		// Date formatting helper
-		Handlebars.registerHelper("formatDate", (date: Date | string, format?: string) => {
-			try {
-				const d = new Date(date);
-				if (isNaN(d.getTime())) return date;
-
-				// Simple format options
-				switch (format) {
-					case "short":
-						return d.toLocaleDateString();
-					case "long":
-						return d.toLocaleDateString("en-US", {
-							year: "numeric",
-							month: "long",
-							day: "numeric"
-						});
-					case "time":
-						return d.toLocaleTimeString();
-					case "datetime":
-						return d.toLocaleString();
-					default:
-						return d.toLocaleDateString();
-				}
-			} catch (error) {
-				return date;
-			}
-		});
-
-		// Currency formatting helper
-		Handlebars.registerHelper("formatCurrency", (amount: number, currency: string = "USD") => {
-			try {
-				return new Intl.NumberFormat("en-US", {
-					style: "currency",
-					currency: currency
-				}).format(amount);
-			} catch (error) {
-				return amount;
-			}
-		});
-
-		// Number formatting helper
-		Handlebars.registerHelper("formatNumber", (number: number, decimals?: number) => {
-			try {
-				return new Intl.NumberFormat("en-US", {
-					minimumFractionDigits: decimals,
-					maximumFractionDigits: decimals
-				}).format(number);
-			} catch (error) {
-				return number;
-			}
-		});
-
-		// Conditional helpers
-		Handlebars.registerHelper("ifEquals", function (this: any, arg1: any, arg2: any, options: any) {
-			return arg1 == arg2 ? options.fn(this) : options.inverse(this);
-		});
-
-		Handlebars.registerHelper(
-			"ifNotEquals",
-			function (this: any, arg1: any, arg2: any, options: any) {
-				return arg1 != arg2 ? options.fn(this) : options.inverse(this);
-			}
-		);
-
-		Handlebars.registerHelper(
-			"ifGreater",
-			function (this: any, arg1: number, arg2: number, options: any) {
-				return arg1 > arg2 ? options.fn(this) : options.inverse(this);
-			}
-		);
-
-		Handlebars.registerHelper(
-			"ifLess",
-			function (this: any, arg1: number, arg2: number, options: any) {
-				return arg1 < arg2 ? options.fn(this) : options.inverse(this);
-			}
-		);
-
-		// Array/Object helpers
-		Handlebars.registerHelper("length", (array: any[]) => {
-			return Array.isArray(array) ? array.length : 0;
-		});
-
-		Handlebars.registerHelper("isEmpty", (array: any[]) => {
-			return !Array.isArray(array) || array.length === 0;
-		});
-
-		Handlebars.registerHelper("isNotEmpty", (array: any[]) => {
-			return Array.isArray(array) && array.length > 0;
-		});
-
-		// Math helpers
-		Handlebars.registerHelper("add", (a: number, b: number) => a + b);
-		Handlebars.registerHelper("subtract", (a: number, b: number) => a - b);
-		Handlebars.registerHelper("multiply", (a: number, b: number) => a * b);
-		Handlebars.registerHelper("divide", (a: number, b: number) => (b !== 0 ? a / b : 0));
-		Handlebars.registerHelper("modulo", (a: number, b: number) => (b !== 0 ? a % b : 0));
-
-		// String helpers
-		Handlebars.registerHelper("uppercase", (str: string) => str?.toUpperCase() || "");
-		Handlebars.registerHelper("lowercase", (str: string) => str?.toLowerCase() || "");
-		Handlebars.registerHelper("capitalize", (str: string) => {
-			if (!str) return "";
-			return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
-		});
-
-		Handlebars.registerHelper("truncate", (str: string, length: number) => {
-			if (!str || str.length <= length) return str;
-			return str.substring(0, length) + "...";
-		});
-
-		// Utility helpers
-		Handlebars.registerHelper("json", (obj: any) => JSON.stringify(obj));
-		Handlebars.registerHelper("currentYear", () => new Date().getFullYear());
-		Handlebars.registerHelper("currentDate", () => new Date().toLocaleDateString());
-
-		// Loop helpers
-		Handlebars.registerHelper("times", function (this: any, n: number, options: any) {
-			let result = "";
-			for (let i = 0; i < n; i++) {
-				result += options.fn({ index: i, number: i + 1 });
-			}
-			return result;
-		});
-
-		this.helpersRegistered = true;
+		registerHandlebarsHelpers();
 	}
 
 	// Compile and cache template
@@ -198,7 +284,7 @@ export class EmailSMTPService {
 	): string {
 		try {
 			const template = this.compileTemplate(templateHtml, cacheKey);
-			return template(data);
+			return renderWithinLimits(template, data);
 		} catch (error) {
 			throw new Error(
 				`Failed to render template: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -235,14 +321,14 @@ export class EmailSMTPService {
 	}
 
 	// Send email with template support
-	async sendEmail(
-		message: EmailMessageSchemaType
-	): Promise<{ success: boolean; messageId?: string; error?: string }> {
+	async sendEmail(message: EmailMessageSchemaType): Promise<EmailSendResult> {
+		let htmlContent: string | undefined;
+
 		try {
 			// Validate message
 			const validMessage = emailMessageSchema.parse(message);
 
-			let htmlContent = validMessage.html;
+			htmlContent = validMessage.html;
 
 			// Render template if templateHtml is provided
 			if (validMessage.templateHtml) {
@@ -276,7 +362,10 @@ export class EmailSMTPService {
 
 			return {
 				success: true,
-				messageId: info.messageId
+				messageId: info.messageId,
+				response: info.response,
+				html: htmlContent,
+				size: htmlContent ? Buffer.byteLength(htmlContent) : undefined
 			};
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
@@ -284,15 +373,15 @@ export class EmailSMTPService {
 
 			return {
 				success: false,
+				html: htmlContent,
+				size: htmlContent ? Buffer.byteLength(htmlContent) : undefined,
 				error: errorMessage
 			};
 		}
 	}
 
 	// Bulk send emails
-	async sendBulkEmails(
-		messages: EmailMessageSchemaType[]
-	): Promise<Array<{ success: boolean; messageId?: string; error?: string }>> {
+	async sendBulkEmails(messages: EmailMessageSchemaType[]): Promise<EmailSendResult[]> {
 		return Promise.all(messages.map(message => this.sendEmail(message)));
 	}
 
@@ -0,0 +1,21 @@
+import type { EmailSchemaType } from "@/databases/drizzle/types";
+import { CredentialCipher } from "@/utils/credentialCipher";
+
+/**
+ * Encrypt an SMTP password before it is stored
+ *
+ * @param password
+ */
+export function encryptEmailPassword(password: string): string {
+	return CredentialCipher.encrypt(password);
+}
+
+/**
+ * Decrypt the SMTP password of a stored configuration, right before connecting to the server
+ * Passwords are never decrypted elsewhere, nor returned to clients
+ *
+ * @param config
+ */
+export function decryptEmailPassword(config: Pick<EmailSchemaType, "password">): string {
+	return CredentialCipher.decrypt(config.password);
+}
@@ -21,9 +21,10 @@ export const emailConfigSchema = z.object({
 	}),
 	secure: validateBoolean("Secure"), // true for 465, false for other ports
 	auth: z.object({
-		user: validateEmail,
+		user: validateString("Username", { min: 1 }), // often, but not always, an email address
 		pass: validateString("Password", { min: 1 })
 	}),
+	pool: validateBoolean("Pool").optional(), // keep connections open across sends
 	// Optional settings
 	service: validateString("Service").optional(), // 'gmail', 'outlook', etc.
 	tls: z
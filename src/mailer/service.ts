@@ -1,17 +1,22 @@
 import type EmailService from "@/app/email/email.service";
+import type EmailLogService from "@/app/emailLog/emailLog.service";
 import type EmailTemplateService from "@/app/emailTemplate/emailTemplate.service";
 
-import { EmailSMTPService } from "@/mailer/config";
+import { EMAIL_LOG_STATUS_LIST } from "@/databases/drizzle/lists";
+import { EmailSMTPService, type EmailSendResult, renderEmailSubject } from "@/mailer/config";
 import { type TemplateDataType } from "@/mailer/schema";
+import { EmailTransportRegistry } from "@/mailer/transports";
 
 interface SendEmailWithTemplate {
 	emailTemplateService: EmailTemplateService;
 	emailService: EmailService;
+	emailLogService: EmailLogService; // Records the attempt, whether it succeeds or not
 	templateName: string;
-	emailConfigName: string;
+	emailConfigName?: string; // The default configuration is used when omitted
 	to: string;
 	templateData?: TemplateDataType; // Dynamic data for template
 	subject?: string; // Optional override for subject
+	outboxId?: number; // The outbox message being delivered
 }
 
 interface SendEmailWithDirectTemplate {
@@ -42,6 +47,11 @@ export function createEmailService(): EmailSMTPService {
 }
 
 export async function sendEmailWithTemplate(config: SendEmailWithTemplate): Promise<void> {
+	const startedAt = Date.now();
+	let emailConfigName = config.emailConfigName;
+	let subject = config.subject;
+	let result: EmailSendResult | undefined;
+
 	try {
 		// Retrieve email template
 		const template = await config.emailTemplateService.retrieveEmailTemplate(config.templateName);
@@ -50,20 +60,26 @@ export async function sendEmailWithTemplate(config: SendEmailWithTemplate): Prom
 		}
 
 		// Retrieve email service configuration
-		const emailService = await config.emailService.retrieveOneByConfigName(config.emailConfigName);
+		const emailService = config.emailConfigName
+			? await config.emailService.retrieveOneByConfigName(config.emailConfigName)
+			: await config.emailService.retrieveDefault();
 		if (!emailService?.data) {
 			throw new Error(
-				`Email service configuration '${config.emailConfigName}' not found or has no data`
+				`Email service configuration '${config.emailConfigName ?? "default"}' not found or has no data`
 			);
 		}
 
-		// Create email service instance
-		const emailServiceInstance = createEmailService();
+		emailConfigName = emailService.data.emailConfigName;
+		// Allow subject override, rendered with the same data as the HTML but as plain text
+		subject = renderEmailSubject(config.subject || template.data.subject, config.templateData);
+
+		// Reuse the pooled transport of the configuration
+		const emailServiceInstance = EmailTransportRegistry.get(emailService.data);
 
 		// Send the email using the template with dynamic data
-		const result = await emailServiceInstance.sendEmail({
+		result = await emailServiceInstance.sendEmail({
 			to: config.to,
-			subject: config.subject || template.data.subject, // Allow subject override
+			subject,
 			templateHtml: template.data.html, // HTML template from server
 			templateData: config.templateData, // Dynamic data
 			from: emailService.data.fromEmail,
@@ -75,9 +91,25 @@ export async function sendEmailWithTemplate(config: SendEmailWithTemplate): Prom
 		}
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
+		result = { ...result, success: false, error: errorMessage };
 		throw new Error(
 			`Failed to send email with template '${config.templateName}' to '${config.to}': ${errorMessage}`
 		);
+	} finally {
+		await config.emailLogService.record({
+			outboxId: config.outboxId,
+			status: result?.success ? EMAIL_LOG_STATUS_LIST.SENT : EMAIL_LOG_STATUS_LIST.FAILED,
+			templateName: config.templateName,
+			emailConfigName,
+			recipients: [config.to],
+			subject,
+			html: result?.html,
+			size: result?.size,
+			messageId: result?.messageId,
+			smtpResponse: result?.response,
+			error: result?.error,
+			durationMs: Date.now() - startedAt
+		});
 	}
 }
 
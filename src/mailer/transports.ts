@@ -0,0 +1,84 @@
+import { emailTransportIdleTimeout } from "@/core/constants";
+import type { EmailSchemaType } from "@/databases/drizzle/types";
+import { EmailSMTPService } from "@/mailer/config";
+import { decryptEmailPassword } from "@/mailer/credentials";
+
+interface PooledTransport {
+	version: string; // Changes whenever the stored configuration is updated
+	service: EmailSMTPService;
+	lastUsedAt: number;
+}
+
+/**
+ * One pooled SMTP transport per stored email configuration, reused across sends
+ *
+ * Transports are keyed by the configuration id and versioned by its `updatedAt`, so that a
+ * configuration updated by this or another server is reconnected on its next send.
+ * `EmailService` releases the transports of the configurations it updates or deletes right away,
+ * and the scheduler closes the ones left idle for `emailTransportIdleTimeout`.
+ */
+export class EmailTransportRegistry {
+	private static transports = new Map<number, PooledTransport>();
+
+	/**
+	 * The transport of a stored configuration, connecting it on first use
+	 *
+	 * @param config
+	 */
+	static get(config: EmailSchemaType): EmailSMTPService {
+		const version = config.updatedAt.toISOString();
+		const existing = EmailTransportRegistry.transports.get(config.id);
+
+		if (existing?.version === version) {
+			existing.lastUsedAt = Date.now();
+			return existing.service;
+		}
+
+		existing?.service.close();
+
+		const service = new EmailSMTPService({
+			host: config.host,
+			port: config.port,
+			secure: config.secure,
+			auth: {
+				user: config.username,
+				pass: decryptEmailPassword(config)
+			},
+			pool: true
+		});
+
+		EmailTransportRegistry.transports.set(config.id, { version, service, lastUsedAt: Date.now() });
+
+		return service;
+	}
+
+	/**
+	 * Close the transport of a configuration, the next send reconnects with the stored settings
+	 *
+	 * @param id
+	 */
+	static release(id: number): void {
+		EmailTransportRegistry.transports.get(id)?.service.close();
+		EmailTransportRegistry.transports.delete(id);
+	}
+
+	/**
+	 * Close the transports that have not sent anything for a while
+	 *
+	 * @param idleTimeout
+	 * @returns The number of closed transports
+	 */
+	static closeIdle(idleTimeout: number = emailTransportIdleTimeout): number {
+		const idleSince = Date.now() - idleTimeout;
+		let closed = 0;
+
+		for (const [id, transport] of EmailTransportRegistry.transports) {
+			if (transport.lastUsedAt < idleSince) {
+				EmailTransportRegistry.release(id);
+				closed++;
+			}
+		}
+
+		return closed;
+	}
+}
@@ -0,0 +1,21 @@
+import { integer, pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { permissionType } from "@/models/drizzle/rolePermission.model";
+import { users } from "@/models/drizzle/user.model";
+
+export const apiKeys = pgTable("api_keys", {
+	id: serial("id").primaryKey(),
+	// The key acts on behalf of the user who created it
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	name: varchar("name", { length: 255 }).notNull(),
+	prefix: varchar("prefix", { length: 32 }).notNull().unique(),
+	keyHash: varchar("key_hash", { length: 255 }).notNull().unique(),
+	scopes: permissionType("scopes").array().notNull(),
+	lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+	expiresAt: timestamp("expires_at", { withTimezone: true }),
+	revokedAt: timestamp("revoked_at", { withTimezone: true }),
+	...timestamps
+});
@@ -0,0 +1,45 @@
+import {
+	index,
+	integer,
+	jsonb,
+	pgEnum,
+	pgTable,
+	serial,
+	text,
+	timestamp,
+	varchar
+} from "drizzle-orm/pg-core";
+
+import { AUDIT_ACTION_LIST } from "@/databases/drizzle/lists";
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export const auditAction = pgEnum("audit_action", AUDIT_ACTION_LIST.enumValues);
+
+// Append-only, rows are never updated or deleted by the application
+export const auditEvents = pgTable(
+	"audit_events",
+	{
+		id: serial("id").primaryKey(),
+		action: auditAction("action").notNull(),
+		// Not foreign keys, the trail must outlive deleted users and API keys
+		actorId: integer("actor_id"),
+		apiKeyId: integer("api_key_id"),
+		// The administrator acting as the actor, set for every event of an impersonated session
+		impersonatorId: integer("impersonator_id"),
+		targetType: varchar("target_type", { length: 50 }),
+		targetId: varchar("target_id", { length: 255 }),
+		ipAddress: varchar("ip_address", { length: 64 }),
+		userAgent: text("user_agent"),
+		requestId: varchar("request_id", { length: 128 }),
+		// Changed fields as `{ field: { from, to } }`, secrets are redacted
+		changes: jsonb("changes").$type<AuditChanges>(),
+		metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+	},
+	table => [
+		index("audit_events_created_at_idx").on(table.createdAt),
+		index("audit_events_actor_id_idx").on(table.actorId),
+		index("audit_events_target_idx").on(table.targetType, table.targetId)
+	]
+);
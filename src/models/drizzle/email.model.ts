@@ -1,16 +1,33 @@
-import { boolean, integer, pgTable, serial, varchar } from "drizzle-orm/pg-core";
+import { boolean, integer, pgTable, serial, text, unique, varchar } from "drizzle-orm/pg-core";
 
 import { timestamps } from "@/databases/drizzle/helpers";
+import { organizations } from "@/models/drizzle/organization.model";
 
-export const email = pgTable("email", {
-	id: serial("id").primaryKey(),
-	emailConfigName: varchar("email_config_name", { length: 255 }).notNull().unique(),
-	host: varchar("host", { length: 255 }).notNull(),
-	port: integer("port").notNull(),
-	username: varchar("username", { length: 255 }).notNull(),
-	password: varchar("password", { length: 255 }).notNull(),
-	secure: boolean("secure").notNull().default(false),
-	fromName: varchar("from_name", { length: 255 }).notNull(),
-	fromEmail: varchar("from_email", { length: 255 }).notNull(),
-	...timestamps
-});
+export const email = pgTable(
+	"email",
+	{
+		id: serial("id").primaryKey(),
+		// Overrides the global configuration of the same name for one organization
+		organizationId: integer("organization_id").references(() => organizations.id, {
+			onDelete: "cascade"
+		}),
+		emailConfigName: varchar("email_config_name", { length: 255 }).notNull(),
+		host: varchar("host", { length: 255 }).notNull(),
+		port: integer("port").notNull(),
+		username: varchar("username", { length: 255 }).notNull(),
+		// Encrypted with `encryptEmailPassword`, only the mailer decrypts it
+		password: text("password").notNull(),
+		secure: boolean("secure").notNull().default(false),
+		fromName: varchar("from_name", { length: 255 }).notNull(),
+		fromEmail: varchar("from_email", { length: 255 }).notNull(),
+		// Used when a send does not name a configuration, one per organization and one globally
+		isDefault: boolean("is_default").notNull().default(false),
+		...timestamps
+	},
+	table => [
+		// A name is unique among the global configurations and within each organization
+		unique("email_organization_config_name_unique")
+			.on(table.organizationId, table.emailConfigName)
+			.nullsNotDistinct()
+	]
+);
@@ -0,0 +1,49 @@
+import {
+	index,
+	integer,
+	jsonb,
+	pgEnum,
+	pgTable,
+	serial,
+	text,
+	timestamp,
+	varchar
+} from "drizzle-orm/pg-core";
+
+import { EMAIL_LOG_STATUS_LIST } from "@/databases/drizzle/lists";
+import { emailOutbox } from "@/models/drizzle/emailOutbox.model";
+import { organizations } from "@/models/drizzle/organization.model";
+
+export const emailLogStatusType = pgEnum("email_log_status_type", EMAIL_LOG_STATUS_LIST.enumValues);
+
+// One row per send attempt, successful or not
+export const emailLogs = pgTable(
+	"email_logs",
+	{
+		id: serial("id").primaryKey(),
+		organizationId: integer("organization_id").references(() => organizations.id, {
+			onDelete: "cascade"
+		}),
+		// The outbox message the attempt was made for
+		outboxId: integer("outbox_id").references(() => emailOutbox.id, { onDelete: "set null" }),
+		status: emailLogStatusType("status").notNull(),
+		templateName: varchar("template_name", { length: 255 }).notNull(),
+		// Empty when no default configuration was found
+		emailConfigName: varchar("email_config_name", { length: 255 }),
+		recipients: jsonb("recipients").$type<string[]>().notNull(),
+		subject: varchar("subject", { length: 255 }),
+		html: text("html"),
+		// Size of the rendered HTML in bytes
+		size: integer("size"),
+		messageId: varchar("message_id", { length: 255 }),
+		smtpResponse: text("smtp_response"),
+		error: text("error"),
+		durationMs: integer("duration_ms").notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+	},
+	table => [
+		index("email_logs_created_at_idx").on(table.createdAt),
+		index("email_logs_outbox_id_idx").on(table.outboxId),
+		index("email_logs_message_id_idx").on(table.messageId)
+	]
+);
@@ -0,0 +1,46 @@
+import {
+	index,
+	integer,
+	jsonb,
+	pgEnum,
+	pgTable,
+	serial,
+	text,
+	timestamp,
+	varchar
+} from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { EMAIL_OUTBOX_STATUS_LIST } from "@/databases/drizzle/lists";
+import { organizations } from "@/models/drizzle/organization.model";
+
+export const emailOutboxStatusType = pgEnum(
+	"email_outbox_status_type",
+	EMAIL_OUTBOX_STATUS_LIST.enumValues
+);
+
+export const emailOutbox = pgTable(
+	"email_outbox",
+	{
+		id: serial("id").primaryKey(),
+		// The template and configuration are resolved for this organization when sending
+		organizationId: integer("organization_id").references(() => organizations.id, {
+			onDelete: "cascade"
+		}),
+		templateName: varchar("template_name", { length: 255 }).notNull(),
+		// The default configuration is used when empty
+		emailConfigName: varchar("email_config_name", { length: 255 }),
+		to: varchar("to", { length: 255 }).notNull(),
+		subject: varchar("subject", { length: 255 }),
+		templateData: jsonb("template_data").$type<Record<string, unknown>>(),
+		status: emailOutboxStatusType("status").notNull().default(EMAIL_OUTBOX_STATUS_LIST.PENDING),
+		attempts: integer("attempts").notNull().default(0),
+		nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+		// When a worker claimed the message, claims that outlive `emailOutboxLockTimeout` are retried
+		lockedAt: timestamp("locked_at", { withTimezone: true }),
+		lastError: text("last_error"),
+		sentAt: timestamp("sent_at", { withTimezone: true }),
+		...timestamps
+	},
+	table => [index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt)]
+);
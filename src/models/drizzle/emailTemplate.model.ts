@@ -1,11 +1,27 @@
-import { pgTable, serial, text, varchar } from "drizzle-orm/pg-core";
+import { integer, pgTable, serial, text, unique, varchar } from "drizzle-orm/pg-core";
 
 import { timestamps } from "@/databases/drizzle/helpers";
+import { organizations } from "@/models/drizzle/organization.model";
 
-export const emailTemplates = pgTable("email_templates", {
-	id: serial("id").primaryKey(),
-	name: varchar("name", { length: 255 }).unique().notNull(),
-	subject: text("subject").notNull(),
-	html: text("html").notNull(),
-	...timestamps
-});
+export const emailTemplates = pgTable(
+	"email_templates",
+	{
+		id: serial("id").primaryKey(),
+		// Overrides the global template of the same name for one organization
+		organizationId: integer("organization_id").references(() => organizations.id, {
+			onDelete: "cascade"
+		}),
+		name: varchar("name", { length: 255 }).notNull(),
+		subject: text("subject").notNull(),
+		html: text("html").notNull(),
+		// The active entry of `email_template_versions`
+		version: integer("version").notNull().default(1),
+		...timestamps
+	},
+	table => [
+		// A name is unique among the global templates and within each organization
+		unique("email_templates_organization_name_unique")
+			.on(table.organizationId, table.name)
+			.nullsNotDistinct()
+	]
+);
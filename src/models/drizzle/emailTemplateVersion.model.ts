@@ -0,0 +1,25 @@
+import { integer, pgTable, serial, text, timestamp, unique } from "drizzle-orm/pg-core";
+
+import { emailTemplates } from "@/models/drizzle/emailTemplate.model";
+import { users } from "@/models/drizzle/user.model";
+
+// Every saved revision of a template, the template itself holds the active one
+export const emailTemplateVersions = pgTable(
+	"email_template_versions",
+	{
+		id: serial("id").primaryKey(),
+		templateId: integer("template_id")
+			.notNull()
+			.references(() => emailTemplates.id, { onDelete: "cascade" }),
+		version: integer("version").notNull(),
+		subject: text("subject").notNull(),
+		html: text("html").notNull(),
+		// Set when the revision restores an earlier version
+		restoredFrom: integer("restored_from"),
+		createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+	},
+	table => [
+		unique("email_template_versions_template_version_unique").on(table.templateId, table.version)
+	]
+);
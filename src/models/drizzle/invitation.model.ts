@@ -0,0 +1,22 @@
+import { index, integer, pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { roleType, users } from "@/models/drizzle/user.model";
+
+export const invitations = pgTable(
+	"invitations",
+	{
+		id: serial("id").primaryKey(),
+		email: varchar("email", { length: 255 }).notNull(),
+		// The role the account is created with when the invitation is accepted
+		role: roleType("role").notNull(),
+		invitedById: integer("invited_by_id").references(() => users.id, { onDelete: "set null" }),
+		// The account created from the invitation
+		userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+		acceptedAt: timestamp("accepted_at", { withTimezone: true }),
+		revokedAt: timestamp("revoked_at", { withTimezone: true }),
+		...timestamps
+	},
+	table => [index("invitations_email_idx").on(table.email)]
+);
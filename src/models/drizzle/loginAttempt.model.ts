@@ -0,0 +1,24 @@
+import { integer, pgEnum, pgTable, serial, timestamp, unique, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { LOGIN_ATTEMPT_SCOPE_LIST } from "@/databases/drizzle/lists";
+
+export const loginAttemptScope = pgEnum("login_attempt_scope", LOGIN_ATTEMPT_SCOPE_LIST.enumValues);
+
+export const loginAttempts = pgTable(
+	"login_attempts",
+	{
+		id: serial("id").primaryKey(),
+		scope: loginAttemptScope("scope").notNull(),
+		// `user:<id>` for known accounts, the submitted identifier otherwise, or the IP address
+		key: varchar("key", { length: 255 }).notNull(),
+		failures: integer("failures").notNull().default(0),
+		// Number of consecutive lockouts, each one lasts twice as long as the previous
+		lockouts: integer("lockouts").notNull().default(0),
+		lastFailureAt: timestamp("last_failure_at", { withTimezone: true }).notNull(),
+		blockedUntil: timestamp("blocked_until", { withTimezone: true }),
+		lockedUntil: timestamp("locked_until", { withTimezone: true }),
+		...timestamps
+	},
+	table => [unique("login_attempts_scope_key_unique").on(table.scope, table.key)]
+);
@@ -0,0 +1,20 @@
+import { integer, pgTable, serial, unique, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { users } from "@/models/drizzle/user.model";
+
+export const oauthAccounts = pgTable(
+	"oauth_accounts",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		provider: varchar("provider", { length: 50 }).notNull(),
+		// Stable identifier of the user at the provider (the OIDC `sub` claim)
+		providerUserId: varchar("provider_user_id", { length: 255 }).notNull(),
+		email: varchar("email", { length: 255 }),
+		...timestamps
+	},
+	table => [unique("oauth_accounts_provider_user_unique").on(table.provider, table.providerUserId)]
+);
@@ -0,0 +1,11 @@
+import { pgTable, serial, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+
+export const organizations = pgTable("organizations", {
+	id: serial("id").primaryKey(),
+	name: varchar("name", { length: 255 }).notNull(),
+	// Identifies the organization in a subdomain, path or header
+	slug: varchar("slug", { length: 63 }).notNull().unique(),
+	...timestamps
+});
@@ -0,0 +1,31 @@
+import { index, integer, pgEnum, pgTable, serial, unique } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { ORGANIZATION_ROLE_LIST } from "@/databases/drizzle/lists";
+import { organizations } from "@/models/drizzle/organization.model";
+import { users } from "@/models/drizzle/user.model";
+
+export const organizationRoleType = pgEnum(
+	"organization_role_type",
+	ORGANIZATION_ROLE_LIST.enumValues
+);
+
+export const organizationMembers = pgTable(
+	"organization_members",
+	{
+		id: serial("id").primaryKey(),
+		organizationId: integer("organization_id")
+			.notNull()
+			.references(() => organizations.id, { onDelete: "cascade" }),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		// The role within the organization, independent of the global role of the user
+		role: organizationRoleType("role").notNull().default(ORGANIZATION_ROLE_LIST.MEMBER),
+		...timestamps
+	},
+	table => [
+		unique("organization_members_organization_user_unique").on(table.organizationId, table.userId),
+		index("organization_members_user_idx").on(table.userId)
+	]
+);
@@ -0,0 +1,18 @@
+import { index, integer, pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { users } from "@/models/drizzle/user.model";
+
+export const recoveryCodes = pgTable(
+	"recovery_codes",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		codeHash: varchar("code_hash", { length: 255 }).notNull(),
+		usedAt: timestamp("used_at", { withTimezone: true }),
+		...timestamps
+	},
+	table => [index("recovery_codes_user_id_idx").on(table.userId)]
+);
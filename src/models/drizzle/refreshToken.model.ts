@@ -0,0 +1,22 @@
+import { index, integer, pgTable, serial, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { users } from "@/models/drizzle/user.model";
+
+export const refreshTokens = pgTable(
+	"refresh_tokens",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		// Every token issued by rotating the same login shares a family
+		familyId: uuid("family_id").notNull(),
+		tokenHash: varchar("token_hash", { length: 255 }).notNull().unique(),
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+		usedAt: timestamp("used_at", { withTimezone: true }),
+		revokedAt: timestamp("revoked_at", { withTimezone: true }),
+		...timestamps
+	},
+	table => [index("refresh_tokens_family_id_idx").on(table.familyId)]
+);
@@ -0,0 +1,18 @@
+import { pgEnum, pgTable, serial, unique } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { PERMISSION_LIST } from "@/databases/drizzle/lists";
+import { roleType } from "@/models/drizzle/user.model";
+
+export const permissionType = pgEnum("permission_type", PERMISSION_LIST.enumValues);
+
+export const rolePermissions = pgTable(
+	"role_permissions",
+	{
+		id: serial("id").primaryKey(),
+		role: roleType("role").notNull(),
+		permission: permissionType("permission").notNull(),
+		...timestamps
+	},
+	table => [unique("role_permissions_role_permission_unique").on(table.role, table.permission)]
+);
@@ -0,0 +1,23 @@
+import { index, integer, jsonb, pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { users } from "@/models/drizzle/user.model";
+
+export const sessions = pgTable(
+	"sessions",
+	{
+		sid: varchar("sid", { length: 255 }).primaryKey(),
+		userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+		sess: jsonb("sess").notNull(),
+		expire: timestamp("expire", { withTimezone: true }).notNull(),
+		// Client details of the authenticated session, shown in the active sessions list
+		ipAddress: varchar("ip_address", { length: 64 }),
+		userAgent: text("user_agent"),
+		lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).notNull().defaultNow(),
+		...timestamps
+	},
+	table => [
+		index("sessions_expire_idx").on(table.expire),
+		index("sessions_user_id_idx").on(table.userId)
+	]
+);
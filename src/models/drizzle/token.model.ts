@@ -0,0 +1,27 @@
+import { index, integer, pgEnum, pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { TOKEN_LIST } from "@/databases/drizzle/lists";
+import { users } from "@/models/drizzle/user.model";
+
+export const tokenType = pgEnum("token_type", TOKEN_LIST.enumValues);
+
+export const tokens = pgTable(
+	"tokens",
+	{
+		id: serial("id").primaryKey(),
+		// `user:<id>` for tokens issued to an account, or any other identifier such as an email address
+		subject: varchar("subject", { length: 255 }).notNull(),
+		userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+		type: tokenType("type").notNull(),
+		tokenHash: varchar("token_hash", { length: 255 }).notNull(),
+		attempts: integer("attempts").notNull().default(0),
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+		consumedAt: timestamp("consumed_at", { withTimezone: true }),
+		...timestamps
+	},
+	table => [
+		index("tokens_subject_type_idx").on(table.subject, table.type),
+		index("tokens_token_hash_idx").on(table.tokenHash)
+	]
+);
@@ -0,0 +1,17 @@
+import { integer, pgTable, serial, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { users } from "@/models/drizzle/user.model";
+
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+	id: serial("id").primaryKey(),
+	userId: integer("user_id")
+		.notNull()
+		.unique()
+		.references(() => users.id, { onDelete: "cascade" }),
+	// Encrypted, the plain secret is needed to compute the expected codes
+	secret: varchar("secret", { length: 255 }).notNull(),
+	// Time step of the last accepted code, a code can never be used twice
+	lastUsedStep: integer("last_used_step"),
+	...timestamps
+});
@@ -0,0 +1,21 @@
+import { boolean, pgEnum, pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+
+import { timestamps } from "@/databases/drizzle/helpers";
+import { ROLE_LIST } from "@/databases/drizzle/lists";
+
+export const roleType = pgEnum("role_type", ROLE_LIST.enumValues);
+
+export const users = pgTable("users", {
+	id: serial("id").primaryKey(),
+	name: varchar("name", { length: 255 }).notNull(),
+	username: varchar("username", { length: 255 }).notNull().unique(),
+	email: varchar("email", { length: 255 }).notNull().unique(),
+	// Accounts created through an OAuth provider have no password until one is set
+	password: varchar("password", { length: 255 }),
+	role: roleType("role").notNull().default(ROLE_LIST.MEMBER),
+	// Deactivated users cannot log in and their sessions, tokens and API keys stop working
+	isActive: boolean("is_active").notNull().default(true),
+	emailVerifiedAt: timestamp("email_verified_at", { withTimezone: true }),
+	twoFactorEnabledAt: timestamp("two_factor_enabled_at", { withTimezone: true }),
+	...timestamps
+});
@@ -1,5 +1,24 @@
 import type { Router } from "express";
 
+import { apiKeyRouter } from "@/app/apiKey/apiKey.routes";
+import { auditRouter } from "@/app/audit/audit.routes";
+import { authRouter } from "@/app/auth/auth.routes";
+import { emailRouter } from "@/app/email/email.routes";
+import { emailLogRouter } from "@/app/emailLog/emailLog.routes";
+import { emailOutboxRouter } from "@/app/emailOutbox/emailOutbox.routes";
+import { emailTemplateRouter } from "@/app/emailTemplate/emailTemplate.routes";
+import { impersonationRouter } from "@/app/impersonation/impersonation.routes";
+import { invitationAcceptRouter, invitationRouter } from "@/app/invitation/invitation.routes";
+import { loginAttemptRouter } from "@/app/loginAttempt/loginAttempt.routes";
+import { oauthRouter } from "@/app/oauth/oauth.routes";
+import {
+	currentOrganizationRouter,
+	organizationRouter
+} from "@/app/organization/organization.routes";
+import { rolePermissionRouter } from "@/app/rolePermission/rolePermission.routes";
+import { sessionRouter, userSessionRouter } from "@/app/session/session.routes";
+import { userRouter } from "@/app/user/user.routes";
+
 import { csrfRouter } from "@/routes/csrf.route";
 
 interface RouteConfig {
@@ -7,4 +26,26 @@ interface RouteConfig {
 	router: Router;
 }
 
-export const routes: RouteConfig[] = [{ path: "/csrf-token", router: csrfRouter }];
+export const routes: RouteConfig[] = [
+	{ path: "/csrf-token", router: csrfRouter },
+	{ path: "/auth", router: authRouter },
+	{ path: "/auth/oauth", router: oauthRouter },
+	{ path: "/auth/sessions", router: sessionRouter },
+	{ path: "/invitations", router: invitationAcceptRouter },
+	{ path: "/organizations", router: organizationRouter },
+	{ path: "/organizations/:organization", router: currentOrganizationRouter },
+	{ path: "/organization", router: currentOrganizationRouter },
+	{ path: "/admin/permissions", router: rolePermissionRouter },
+	{ path: "/admin/users", router: userRouter },
+	{ path: "/admin/users", router: userSessionRouter },
+	{ path: "/admin/invitations", router: invitationRouter },
+	{ path: "/admin/impersonation", router: impersonationRouter },
+	{ path: "/admin/lockouts", router: loginAttemptRouter },
+	{ path: "/admin/audit", router: auditRouter },
+	{ path: "/api-keys", router: apiKeyRouter },
+	// Before `/emails`, whose `/:id` routes would match them otherwise
+	{ path: "/emails/outbox", router: emailOutboxRouter },
+	{ path: "/emails/logs", router: emailLogRouter },
+	{ path: "/emails", router: emailRouter },
+	{ path: "/email-templates", router: emailTemplateRouter }
+];
@@ -1,6 +1,7 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 
 import DrizzleService from "@/databases/drizzle/service";
+import { encryptEmailPassword } from "@/mailer/credentials";
 import { email } from "@/models/drizzle/email.model";
 
 interface EmailConfigData {
@@ -12,6 +13,7 @@ interface EmailConfigData {
 	secure: boolean;
 	fromName: string;
 	fromEmail: string;
+	isDefault?: boolean;
 }
 
 export default class EmailSeeder extends DrizzleService {
@@ -30,7 +32,8 @@ export default class EmailSeeder extends DrizzleService {
 				password: process.env.SMTP_PASSWORD,
 				secure: process.env.SMTP_PORT === 465, // true for 465, false for 587
 				fromName: "Webphics",
-				fromEmail: "info@webphics.com"
+				fromEmail: "info@webphics.com",
+				isDefault: true
 			},
 			{
 				emailConfigName: "notifications",
@@ -63,7 +66,7 @@ export default class EmailSeeder extends DrizzleService {
 				const existingConfig = await this.db
 					.select()
 					.from(email)
-					.where(eq(email.emailConfigName, config.emailConfigName))
+					.where(and(eq(email.emailConfigName, config.emailConfigName), this.tenantScope(email)))
 					.limit(1);
 
 				if (existingConfig.length > 0) {
@@ -73,7 +76,9 @@ export default class EmailSeeder extends DrizzleService {
 				}
 
 				// Create the email configuration
-				await this.db.insert(email).values(config);
+				await this.db
+					.insert(email)
+					.values({ ...config, password: encryptEmailPassword(config.password) });
 
 				console.log(`  ✅ Created email config: ${config.emailConfigName}`);
 				createdCount++;
@@ -118,7 +123,7 @@ export default class EmailSeeder extends DrizzleService {
 					host: process.env.SMTP_HOST,
 					port: process.env.SMTP_PORT,
 					username: process.env.SMTP_USER || `${configName}@example.com`,
-					password: process.env.SMTP_PASSWORD,
+					password: encryptEmailPassword(process.env.SMTP_PASSWORD),
 					secure: process.env.SMTP_PORT === 465, // true for 465, false for 587
 					fromEmail: process.env.SMTP_USER || `${configName}@example.com`,
 					updatedAt: new Date()
@@ -127,7 +132,7 @@ export default class EmailSeeder extends DrizzleService {
 				const result = await this.db
 					.update(email)
 					.set(updateData)
-					.where(eq(email.emailConfigName, configName));
+					.where(and(eq(email.emailConfigName, configName), this.tenantScope(email)));
 
 				console.log(`  ✅ Updated email config: ${configName}`);
 				updatedCount++;
@@ -1,7 +1,8 @@
-import { eq } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
 
 import DrizzleService from "@/databases/drizzle/service";
 import { emailTemplates } from "@/models/drizzle/emailTemplate.model";
+import { emailTemplateVersions } from "@/models/drizzle/emailTemplateVersion.model";
 
 interface EmailTemplateData {
 	name: string;
@@ -82,8 +83,9 @@ export default class EmailTemplateSeeder extends DrizzleService {
 							.container { background-color: #f9f9f9; padding: 30px; border-radius: 10px; border: 1px solid #ddd; }
 							.header { text-align: center; margin-bottom: 30px; }
 							.logo { font-size: 24px; font-weight: bold; color: #2c5aa0; }
-							.otp-box { background-color: #e74c3c; color: white; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0; }
-							.otp-code { font-size: 32px; font-weight: bold; letter-spacing: 8px; margin: 10px 0; }
+							.action-box { text-align: center; margin: 30px 0; }
+							.action-button { background-color: #e74c3c; color: white !important; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block; }
+							.action-link { word-break: break-all; font-size: 12px; color: #666; }
 							.footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; text-align: center; }
 						</style>
 					</head>
@@ -95,16 +97,17 @@ export default class EmailTemplateSeeder extends DrizzleService {
 
 							<h2>Hello {{username}},</h2>
 
-							<p>We received a request to reset your Webphics account password. To proceed with the password reset, please use the verification code below:</p>
+							<p>We received a request to reset your Webphics account password. To choose a new password, please click the button below:</p>
 
-							<div class="otp-box">
-								<div>Your password reset code is:</div>
-								<div class="otp-code">{{otp}}</div>
+							<div class="action-box">
+								<a class="action-button" href="{{resetLink}}">Reset Password</a>
 							</div>
 
-							<p><strong>Important:</strong> This code will expire in {{otpExpirationTime}} minutes. If you didn't request this password reset, please ignore this email and contact our support team immediately.</p>
+							<p class="action-link">If the button does not work, copy and paste this link into your browser:<br>{{resetLink}}</p>
 
-							<p>For your security, never share this code with anyone.</p>
+							<p><strong>Important:</strong> This link will expire in {{expirationTime}} minutes and can only be used once. If you didn't request this password reset, please ignore this email and contact our support team immediately.</p>
+
+							<p>For your security, never share this link with anyone.</p>
 
 							<p>Best regards,<br>The Webphics Team</p>
 
@@ -132,8 +135,9 @@ export default class EmailTemplateSeeder extends DrizzleService {
 							.container { background-color: #f9f9f9; padding: 30px; border-radius: 10px; border: 1px solid #ddd; }
 							.header { text-align: center; margin-bottom: 30px; }
 							.logo { font-size: 24px; font-weight: bold; color: #2c5aa0; }
-							.otp-box { background-color: #27ae60; color: white; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0; }
-							.otp-code { font-size: 32px; font-weight: bold; letter-spacing: 8px; margin: 10px 0; }
+							.action-box { text-align: center; margin: 30px 0; }
+							.action-button { background-color: #27ae60; color: white !important; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block; }
+							.action-link { word-break: break-all; font-size: 12px; color: #666; }
 							.footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; text-align: center; }
 						</style>
 					</head>
@@ -145,14 +149,15 @@ export default class EmailTemplateSeeder extends DrizzleService {
 
 							<h2>Welcome to Webphics, {{username}}!</h2>
 
-							<p>Thank you for registering with Webphics. To complete your account setup, please verify your email address using the code below:</p>
+							<p>Thank you for registering with Webphics. To complete your account setup, please verify your email address by clicking the button below:</p>
 
-							<div class="otp-box">
-								<div>Your verification code is:</div>
-								<div class="otp-code">{{otp}}</div>
+							<div class="action-box">
+								<a class="action-button" href="{{verificationLink}}">Verify Email Address</a>
 							</div>
 
-							<p><strong>Important:</strong> This code will expire in {{otpExpirationTime}} minutes. If you didn't create this account, please ignore this email.</p>
+							<p class="action-link">If the button does not work, copy and paste this link into your browser:<br>{{verificationLink}}</p>
+
+							<p><strong>Important:</strong> This link will expire in {{expirationTime}} minutes. If you didn't create this account, please ignore this email.</p>
 
 							<p>Once verified, you'll have full access to all Webphics features!</p>
 
@@ -167,6 +172,115 @@ export default class EmailTemplateSeeder extends DrizzleService {
 					</html>
 				`
 			},
+			{
+				name: "account_unlock",
+				subject: "Webphics - Your Account Has Been Locked",
+				html: `
+					<!DOCTYPE html>
+					<html>
+					<head>
+						<meta charset="utf-8">
+						<meta name="viewport" content="width=device-width, initial-scale=1.0">
+						<title>Your Account Has Been Locked</title>
+						<style>
+							body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+							.container { background-color: #f9f9f9; padding: 30px; border-radius: 10px; border: 1px solid #ddd; }
+							.header { text-align: center; margin-bottom: 30px; }
+							.logo { font-size: 24px; font-weight: bold; color: #2c5aa0; }
+							.warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; }
+							.action-box { text-align: center; margin: 30px 0; }
+							.action-button { background-color: #e74c3c; color: white !important; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block; }
+							.action-link { word-break: break-all; font-size: 12px; color: #666; }
+							.footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; text-align: center; }
+						</style>
+					</head>
+					<body>
+						<div class="container">
+							<div class="header">
+								<div class="logo">Webphics</div>
+							</div>
+
+							<h2>Account Locked</h2>
+
+							<p>Hello {{username}},</p>
+
+							<p>We detected too many failed login attempts on your account, so it has been locked for {{lockoutTime}} minutes to keep it safe.</p>
+
+							<p>If this was you, you can unlock your account right away by clicking the button below:</p>
+
+							<div class="action-box">
+								<a class="action-button" href="{{unlockLink}}">Unlock My Account</a>
+							</div>
+
+							<p class="action-link">If the button does not work, copy and paste this link into your browser:<br>{{unlockLink}}</p>
+
+							<div class="warning">
+								<strong>⚠️ Wasn't you?</strong> Someone may be trying to guess your password. We recommend resetting your password and enabling two-factor authentication.
+							</div>
+
+							<p><strong>Important:</strong> This link will expire in {{expirationTime}} minutes.</p>
+
+							<p>Best regards,<br>The Webphics Team</p>
+
+							<div class="footer">
+								<p>This is an automated message, please do not reply to this email.</p>
+								<p>&copy; 2025 Webphics. All rights reserved.</p>
+							</div>
+						</div>
+					</body>
+					</html>
+				`
+			},
+			{
+				name: "invitation",
+				subject: "Webphics - You Have Been Invited",
+				html: `
+					<!DOCTYPE html>
+					<html>
+					<head>
+						<meta charset="utf-8">
+						<meta name="viewport" content="width=device-width, initial-scale=1.0">
+						<title>You Have Been Invited</title>
+						<style>
+							body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+							.container { background-color: #f9f9f9; padding: 30px; border-radius: 10px; border: 1px solid #ddd; }
+							.header { text-align: center; margin-bottom: 30px; }
+							.logo { font-size: 24px; font-weight: bold; color: #2c5aa0; }
+							.action-box { text-align: center; margin: 30px 0; }
+							.action-button { background-color: #2c5aa0; color: white !important; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block; }
+							.action-link { word-break: break-all; font-size: 12px; color: #666; }
+							.footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; text-align: center; }
+						</style>
+					</head>
+					<body>
+						<div class="container">
+							<div class="header">
+								<div class="logo">Webphics</div>
+							</div>
+
+							<h2>You have been invited!</h2>
+
+							<p>{{inviterName}} has invited you to join Webphics as a {{role}}. To accept the invitation, choose your username and password by clicking the button below:</p>
+
+							<div class="action-box">
+								<a class="action-button" href="{{acceptLink}}">Accept Invitation</a>
+							</div>
+
+							<p class="action-link">If the button does not work, copy and paste this link into your browser:<br>{{acceptLink}}</p>
+
+							<p><strong>Important:</strong> This invitation will expire in {{expirationDays}} days and can only be used once. If you were not expecting it, you can safely ignore this email.</p>
+
+							<p>Best regards,<br>The Webphics Team</p>
+
+							<div class="footer">
+								<p>This is an automated message, please do not reply to this email.</p>
+								<p>&copy; 2025 Webphics. All rights reserved.</p>
+							</div>
+						</div>
+					</body>
+					</html>
+				`
+			},
 			{
 				name: "welcome",
 				subject: "Welcome to Webphics!",
@@ -234,22 +348,52 @@ export default class EmailTemplateSeeder extends DrizzleService {
 			try {
 				// Check if template already exists
 				const existingTemplate = await this.getDb().query.emailTemplates.findFirst({
-					where: eq(emailTemplates.name, template.name)
+					where: and(eq(emailTemplates.name, template.name), this.tenantScope(emailTemplates))
 				});
 
-				if (existingTemplate) {
-					// Update existing template
-					await this.getDb()
-						.update(emailTemplates)
-						.set({
-							subject: template.subject,
-							html: template.html
-						})
-						.where(eq(emailTemplates.name, template.name));
+				if (
+					existingTemplate?.subject === template.subject &&
+					existingTemplate.html === template.html
+				) {
+					console.log(`⏭️  Email template is up to date: ${template.name}`);
+				} else if (existingTemplate) {
+					// Save the seeded content as a new version of the existing template
+					await this.db.transaction(async tx => {
+						const updated = await tx
+							.update(emailTemplates)
+							.set({
+								subject: template.subject,
+								html: template.html,
+								version: sql`${emailTemplates.version} + 1`
+							})
+							.where(eq(emailTemplates.id, existingTemplate.id))
+							.returning()
+							.then(rows => rows[0]);
+
+						await tx.insert(emailTemplateVersions).values({
+							templateId: updated.id,
+							version: updated.version,
+							subject: updated.subject,
+							html: updated.html
+						});
+					});
 					console.log(`🔄 Updated email template: ${template.name}`);
 				} else {
-					// Create new template
-					await this.getDb().insert(emailTemplates).values(template);
+					// Create new template along with its first version
+					await this.db.transaction(async tx => {
+						const created = await tx
+							.insert(emailTemplates)
+							.values(template)
+							.returning()
+							.then(rows => rows[0]);
+
+						await tx.insert(emailTemplateVersions).values({
+							templateId: created.id,
+							version: created.version,
+							subject: created.subject,
+							html: created.html
+						});
+					});
 					console.log(`✅ Created email template: ${template.name}`);
 				}
 				successCount++;
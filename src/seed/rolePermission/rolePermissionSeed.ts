@@ -0,0 +1,94 @@
+import { and, eq } from "drizzle-orm";
+
+import { PERMISSION_LIST, ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type { PermissionType, RoleType } from "@/databases/drizzle/types";
+import { rolePermissions } from "@/models/drizzle/rolePermission.model";
+
+// Administrators are granted every permission implicitly and are not stored
+const defaultRolePermissions: Record<Exclude<RoleType, "ADMIN">, PermissionType[]> = {
+	[ROLE_LIST.SUPERVISOR]: [
+		PERMISSION_LIST.EMAIL_READ,
+		PERMISSION_LIST.USER_READ,
+		PERMISSION_LIST.USER_WRITE
+	],
+	[ROLE_LIST.MEMBER]: []
+};
+
+export default class RolePermissionSeeder extends DrizzleService {
+	/**
+	 * Create the default role permission matrix
+	 */
+	async createRolePermissions(): Promise<void> {
+		console.log("🔐 Seeding role permissions...");
+
+		let createdCount = 0;
+		let skippedCount = 0;
+
+		for (const [role, permissions] of Object.entries(defaultRolePermissions)) {
+			for (const permission of permissions) {
+				try {
+					// Check if the permission is already granted
+					const existingPermission = await this.db
+						.select()
+						.from(rolePermissions)
+						.where(
+							and(
+								eq(rolePermissions.role, role as RoleType),
+								eq(rolePermissions.permission, permission)
+							)
+						)
+						.limit(1);
+
+					if (existingPermission.length > 0) {
+						skippedCount++;
+						continue;
+					}
+
+					await this.db.insert(rolePermissions).values({ role: role as RoleType, permission });
+
+					console.log(`  ✅ Granted ${permission} to ${role}`);
+					createdCount++;
+				} catch (error) {
+					console.error(`  ❌ Failed to grant ${permission} to ${role}:`, error);
+					throw error;
+				}
+			}
+		}
+
+		console.log(`🔐 Role permission seeding completed:`);
+		console.log(`  - Created: ${createdCount} permissions`);
+		console.log(`  - Skipped: ${skippedCount} permissions (already exist)`);
+	}
+
+	/**
+	 * Clear all role permissions (for development/testing)
+	 */
+	async clearRolePermissions(): Promise<void> {
+		console.log("🧹 Clearing role permissions...");
+
+		try {
+			await this.db.delete(rolePermissions);
+			console.log(`✅ Cleared all role permissions`);
+		} catch (error) {
+			console.error("❌ Failed to clear role permissions:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Main seeder method - grants the default permissions if they don't exist
+	 */
+	async run(): Promise<void> {
+		console.log("🚀 Running Role Permission Seeder...");
+		console.log("-".repeat(50));
+
+		try {
+			await this.createRolePermissions();
+			console.log("✅ Role Permission Seeder completed successfully!");
+		} catch (error) {
+			console.error("❌ Role Permission Seeder failed:", error);
+			throw error;
+		}
+	}
+}
@@ -2,6 +2,8 @@ import dotenv from "dotenv";
 
 import EmailSeeder from "@/seed/email/emailSeed";
 import EmailTemplateSeeder from "@/seed/emailTemplate/emailTemplateSeed";
+import RolePermissionSeeder from "@/seed/rolePermission/rolePermissionSeed";
+import UserSeeder from "@/seed/user/userSeed";
 
 // Load environment variables
 dotenv.config();
@@ -15,10 +17,14 @@ dotenv.config();
 export default class SuperSeeder {
 	private emailTemplateSeeder: EmailTemplateSeeder;
 	private emailSeeder: EmailSeeder;
+	private rolePermissionSeeder: RolePermissionSeeder;
+	private userSeeder: UserSeeder;
 
 	constructor() {
 		this.emailTemplateSeeder = new EmailTemplateSeeder();
 		this.emailSeeder = new EmailSeeder();
+		this.rolePermissionSeeder = new RolePermissionSeeder();
+		this.userSeeder = new UserSeeder();
 	}
 
 	/**
@@ -37,6 +43,12 @@ export default class SuperSeeder {
 			// Seed email templates (as they might be needed by user notifications)
 			await this.emailTemplateSeeder.run();
 
+			// Seed the role permission matrix (used by the authorization middleware)
+			await this.rolePermissionSeeder.run();
+
+			// Seed the default users once the permissions of their roles exist
+			await this.userSeeder.run();
+
 			// Add other seeders here in the future
 			// Example:
 			// await this.projectSeeder.run();
@@ -81,12 +93,43 @@ export default class SuperSeeder {
 		}
 	}
 
+	/**
+	 * Run only role permission seeder
+	 */
+	async runRolePermissionSeeder(): Promise<void> {
+		console.log("🚀 Running Role Permission Seeder only...");
+		try {
+			await this.rolePermissionSeeder.run();
+			console.log("✅ Role Permission Seeder completed successfully!");
+		} catch (error) {
+			console.error("❌ Role Permission Seeder failed:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Run only user seeder
+	 */
+	async runUserSeeder(): Promise<void> {
+		console.log("🚀 Running User Seeder only...");
+		try {
+			await this.userSeeder.run();
+			console.log("✅ User Seeder completed successfully!");
+		} catch (error) {
+			console.error("❌ User Seeder failed:", error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Clear all seeded data (for development/testing)
 	 */
 	async clearAll(): Promise<void> {
 		console.log("🧹 Clearing all seeded data...");
 		try {
+			// Users are cleared first, in the reverse order of seeding
+			await this.userSeeder.clearUsers();
+			await this.rolePermissionSeeder.clearRolePermissions();
 			await this.emailTemplateSeeder.clearEmailTemplates();
 			await this.emailSeeder.clearEmailConfigurations();
 			console.log("✅ All seeded data cleared successfully!");
@@ -114,6 +157,10 @@ if (require.main === module) {
 				case "run":
 					await superSeeder.runAll();
 					break;
+				case "users":
+				case "user":
+					await superSeeder.runUserSeeder();
+					break;
 				case "emailconfigs":
 				case "emailconfig":
 				case "email-configs":
@@ -125,15 +172,21 @@ if (require.main === module) {
 				case "templates":
 					await superSeeder.runEmailTemplateSeeder();
 					break;
+				case "permissions":
+				case "permission":
+				case "roles":
+					await superSeeder.runRolePermissionSeeder();
+					break;
 				case "clear":
 					await superSeeder.clearAll();
 					break;
 				default:
-					console.log("Usage: npm run db:seed [all|users|emailconfigs|emails|clear]");
+					console.log("Usage: npm run db:seed [all|users|emailconfigs|emails|permissions|clear]");
 					console.log("  all (default) - Run all seeders");
 					console.log("  users         - Run only user seeder");
 					console.log("  emailconfigs  - Run only email configuration seeder");
 					console.log("  emails        - Run only email template seeder");
+					console.log("  permissions   - Run only role permission seeder");
 					console.log("  clear         - Clear all seeded data");
 					break;
 			}
@@ -0,0 +1,162 @@
+import { eq, inArray, or } from "drizzle-orm";
+
+import { ROLE_LIST } from "@/databases/drizzle/lists";
+import DrizzleService from "@/databases/drizzle/service";
+import type { RoleType } from "@/databases/drizzle/types";
+import { users } from "@/models/drizzle/user.model";
+import AppHelpers from "@/utils/appHelpers";
+
+interface UserData {
+	name: string;
+	username: string;
+	email: string;
+	role: RoleType;
+	// The environment variable holding the password and the development default
+	passwordEnv: string;
+	defaultPassword: string;
+}
+
+// Credentials can be overridden through the environment, read when seeding once it is loaded
+const seedUsers = (): UserData[] => [
+	{
+		name: "Admin",
+		username: "admin",
+		email: process.env.SEED_ADMIN_EMAIL || "admin@onedesk.com",
+		role: ROLE_LIST.ADMIN,
+		passwordEnv: "SEED_ADMIN_PASSWORD",
+		defaultPassword: "Admin123"
+	},
+	{
+		name: "Sarah Supervisor",
+		username: "supervisor",
+		email: process.env.SEED_SUPERVISOR_EMAIL || "supervisor@onedesk.com",
+		role: ROLE_LIST.SUPERVISOR,
+		passwordEnv: "SEED_SUPERVISOR_PASSWORD",
+		defaultPassword: "Supervisor123"
+	},
+	{
+		name: "John Member",
+		username: "member1",
+		email: "member1@onedesk.com",
+		role: ROLE_LIST.MEMBER,
+		passwordEnv: "SEED_MEMBER_PASSWORD",
+		defaultPassword: "Member123"
+	},
+	{
+		name: "Jane Member",
+		username: "member2",
+		email: "member2@onedesk.com",
+		role: ROLE_LIST.MEMBER,
+		passwordEnv: "SEED_MEMBER_PASSWORD",
+		defaultPassword: "Member123"
+	}
+];
+
+export default class UserSeeder extends DrizzleService {
+	/**
+	 * Create the default users
+	 */
+	async createUsers(): Promise<void> {
+		console.log("👤 Seeding users...");
+
+		let createdCount = 0;
+		let skippedCount = 0;
+		const credentials: string[] = [];
+
+		for (const { passwordEnv, defaultPassword, ...user } of seedUsers()) {
+			try {
+				const password = this.password(passwordEnv, defaultPassword);
+
+				// Check if the username or email is already taken
+				const existingUser = await this.db
+					.select({ id: users.id })
+					.from(users)
+					.where(or(eq(users.username, user.username), eq(users.email, user.email)))
+					.limit(1);
+
+				if (existingUser.length > 0) {
+					console.log(`  ⏭️  User "${user.username}" already exists, skipping...`);
+					skippedCount++;
+					continue;
+				}
+
+				await this.db.insert(users).values({
+					...user,
+					password: await AppHelpers.hashPassword(password),
+					emailVerifiedAt: new Date()
+				});
+
+				console.log(`  ✅ Created ${user.role} "${user.username}"`);
+				// Passwords taken from the environment are never printed
+				credentials.push(
+					`  - ${user.role.padEnd(10)} ${user.email} / ${process.env[passwordEnv] ? `(${passwordEnv})` : password}`
+				);
+				createdCount++;
+			} catch (error) {
+				console.error(`  ❌ Failed to create user "${user.username}":`, error);
+				throw error;
+			}
+		}
+
+		console.log(`👤 User seeding completed:`);
+		console.log(`  - Created: ${createdCount} users`);
+		console.log(`  - Skipped: ${skippedCount} users (already exist)`);
+
+		if (credentials.length > 0) {
+			console.log("📋 Credentials of the created users:");
+			credentials.forEach(line => console.log(line));
+		}
+	}
+
+	/**
+	 * Clear the seeded users (for development/testing)
+	 * Their sessions, tokens and API keys are removed along with them
+	 */
+	async clearUsers(): Promise<void> {
+		console.log("🧹 Clearing seeded users...");
+
+		try {
+			await this.db.delete(users).where(
+				inArray(
+					users.username,
+					seedUsers().map(user => user.username)
+				)
+			);
+			console.log(`✅ Cleared seeded users`);
+		} catch (error) {
+			console.error("❌ Failed to clear seeded users:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Main seeder method - creates the default users if they don't exist
+	 */
+	async run(): Promise<void> {
+		console.log("🚀 Running User Seeder...");
+		console.log("-".repeat(50));
+
+		try {
+			await this.createUsers();
+			console.log("✅ User Seeder completed successfully!");
+		} catch (error) {
+			console.error("❌ User Seeder failed:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Read a seed password from the environment
+	 * The development default is refused in production so no well-known password is ever deployed
+	 */
+	private password(name: string, fallback: string): string {
+		const value = process.env[name];
+		if (value) return value;
+
+		if (process.env.NODE_ENV === "production") {
+			throw new Error(`${name} must be set to seed users in production`);
+		}
+
+		return fallback;
+	}
+}
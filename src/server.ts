@@ -4,6 +4,7 @@ import pc from "picocolors";
 import app from "@/app";
 import "@/core/env";
 import { initializeProcessHandlers } from "@/settings/errorHandler";
+import initializeScheduledJobs from "@/settings/scheduler";
 import getExpressVersion from "@/settings/version";
 
 const expressVersion = getExpressVersion();
@@ -17,6 +18,8 @@ const startServer = async () => {
 		const ipAddress = ip.address();
 		const ENV = process.env.NODE_ENV || "development";
 
+		initializeScheduledJobs();
+
 		app.listen(port, () => {
 			console.log(pc.magenta(`\n▲ Express.js ${expressVersion}`));
 			console.log(`- Local:        http://localhost:${port}`);
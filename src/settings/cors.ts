@@ -16,7 +16,14 @@ export const corsOptions: CorsOptions = {
 
 	methods: ["GET", "POST", "PUT", "DELETE"],
 
-	allowedHeaders: ["Content-Type", "Authorization", "x-csrf-token", "ngrok-skip-browser-warning"],
+	allowedHeaders: [
+		"Content-Type",
+		"Authorization",
+		"x-csrf-token",
+		"x-organization",
+		"ngrok-skip-browser-warning"
+	],
+	exposedHeaders: ["x-impersonated-by"],
 	maxAge: 3600
 };
 
@@ -3,6 +3,7 @@ import { StatusCodes } from "http-status-codes";
 import pc from "picocolors";
 import { z } from "zod";
 
+import AppHelpers from "@/utils/appHelpers";
 import { ApiResponse } from "@/utils/serviceApi";
 
 /**
@@ -119,8 +120,7 @@ function logError(error: any, req: Request): void {
 	const timestamp = new Date().toISOString();
 	const method = req.method;
 	const url = req.originalUrl;
-	const userAgent = req.get("User-Agent") || "Unknown";
-	const ip = req.ip || req.socket.remoteAddress || "Unknown";
+	const { ip, userAgent } = AppHelpers.requestClient(req);
 
 	console.error(pc.red("=".repeat(80)));
 	console.error(pc.red(`🚨 ERROR OCCURRED AT: ${timestamp}`));
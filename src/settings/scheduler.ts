@@ -0,0 +1,43 @@
+import EmailOutboxService from "@/app/emailOutbox/emailOutbox.service";
+import VerificationTokenService from "@/app/verificationToken/verificationToken.service";
+
+import {
+	emailOutboxPollInterval,
+	emailTransportSweepInterval,
+	verificationTokenPurgeInterval
+} from "@/core/constants";
+import { EmailTransportRegistry } from "@/mailer/transports";
+
+/**
+ * Start the periodic maintenance jobs of the server
+ * The timers do not keep the process alive
+ */
+export default function initializeScheduledJobs() {
+	const tokenPurgeTimer = setInterval(() => {
+		new VerificationTokenService()
+			.purgeExpired()
+			.catch(error => console.error("Failed to purge verification tokens:", error));
+	}, verificationTokenPurgeInterval);
+	tokenPurgeTimer.unref();
+
+	// Deliver queued emails, skipping a poll while the previous batch is still sending
+	let sendingOutbox = false;
+	const outboxTimer = setInterval(() => {
+		if (sendingOutbox) return;
+		sendingOutbox = true;
+
+		new EmailOutboxService()
+			.processBatch()
+			.catch(error => console.error("Failed to process the email outbox:", error))
+			.finally(() => {
+				sendingOutbox = false;
+			});
+	}, emailOutboxPollInterval);
+	outboxTimer.unref();
+
+	// Close the SMTP connections of configurations that stopped sending
+	const transportSweepTimer = setInterval(() => {
+		EmailTransportRegistry.closeIdle();
+	}, emailTransportSweepInterval);
+	transportSweepTimer.unref();
+}
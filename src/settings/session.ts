@@ -0,0 +1,58 @@
+import type { Express } from "express";
+import session from "express-session";
+import passport from "passport";
+
+import AuthService from "@/app/auth/auth.service";
+
+import { sessionTimeout } from "@/core/constants";
+import AppHelpers from "@/utils/appHelpers";
+import { sessionStore } from "@/utils/sessionStore";
+
+export default function appSession(app: Express) {
+	const cookieConfig = AppHelpers.sameSiteCookieConfig();
+
+	app.use(
+		session({
+			name: process.env.SESSION_COOKIE_NAME || "session",
+			secret: process.env.SECRET,
+			store: sessionStore,
+			resave: false,
+			saveUninitialized: false,
+			rolling: true,
+			cookie: {
+				httpOnly: true,
+				maxAge: sessionTimeout,
+				sameSite: cookieConfig.sameSite,
+				secure: cookieConfig.secure,
+				...(cookieConfig.domain && { domain: cookieConfig.domain })
+			}
+		})
+	);
+
+	// Only the user id is kept in the session, the user is reloaded on every request
+	passport.serializeUser((user, done) => done(null, user.id));
+	passport.deserializeUser((id: number, done) => {
+		new AuthService()
+			.findSessionUser(id)
+			.then(user => done(null, user ?? false))
+			.catch(error => done(error));
+	});
+
+	app.use(passport.initialize());
+	app.use(passport.session());
+
+	// Record the client of authenticated sessions, only writing when it changes
+	app.use((req, res, next) => {
+		if (!req.session?.passport?.user) return next();
+
+		const client = AppHelpers.requestClient(req);
+		if (
+			req.session.client?.ip !== client.ip ||
+			req.session.client?.userAgent !== client.userAgent
+		) {
+			req.session.client = client;
+		}
+
+		next();
+	});
+}
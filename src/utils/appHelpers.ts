@@ -1,10 +1,28 @@
+import bcrypt from "bcrypt";
+import crypto from "crypto";
 import dotenv from "dotenv";
-import type { CookieOptions } from "express";
+import type { CookieOptions, Request } from "express";
 
-import { blackListDomains } from "@/core/constants";
+import {
+	blackListDomains,
+	passwordSaltRounds,
+	totpDigits,
+	totpStep,
+	totpWindow
+} from "@/core/constants";
 
 dotenv.config();
 
+const base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Used to spend the same time on a comparison when there is no stored hash
+const dummyPasswordHash = "$2b$10$Tdx0A.zg23iYr8NYmm2wl.P.MwVwOxohs96RpYLeqLLDynLkz/ON.";
+
+export interface RequestClient {
+	ip: string;
+	userAgent: string;
+}
+
 interface SameSiteCookieConfig {
 	sameSite: CookieOptions["sameSite"];
 	secure: boolean;
@@ -24,19 +42,33 @@ export default class AppHelpers {
 	}
 
 	/**
-	 * Generates a random OTP of the specified length.
+	 * Extracts the IP address and User-Agent of the client that sent a request.
+	 * @param req - The incoming request.
+	 * @returns The client IP address and User-Agent, "Unknown" when missing.
+	 */
+	static requestClient(req: Request): RequestClient {
+		return {
+			ip: req.ip || req.socket.remoteAddress || "Unknown",
+			userAgent: req.get("User-Agent") || "Unknown"
+		};
+	}
+
+	/**
+	 * Generates a cryptographically random numeric OTP of the specified length.
+	 * Returned as a string so that leading zeros are kept.
 	 * @param length - The length of the OTP to generate.
 	 * @returns The generated OTP.
 	 * @throws An error if the length is less than 4.
 	 */
-	static OTPGenerator(length: number = 4): number {
+	static OTPGenerator(length: number = 4): string {
 		if (length < 4) {
 			throw new Error("The OTP length must be at least 4.");
 		}
 
-		const min = Math.pow(10, length - 1);
-		const max = Math.pow(10, length) - 1;
-		return Math.floor(Math.random() * (max - min + 1) + min);
+		return crypto
+			.randomInt(0, 10 ** length)
+			.toString()
+			.padStart(length, "0");
 	}
 
 	/**
@@ -49,6 +81,186 @@ export default class AppHelpers {
 		return new Date(now.getTime() + expiryTime * 60000);
 	}
 
+	/**
+	 * Encodes a buffer as RFC 4648 base32 without padding, as expected by authenticator apps.
+	 * @param buffer - The bytes to encode.
+	 * @returns The base32 string.
+	 */
+	static base32Encode(buffer: Buffer): string {
+		let bits = "";
+		buffer.forEach(byte => (bits += byte.toString(2).padStart(8, "0")));
+
+		return (bits.match(/.{1,5}/g) || [])
+			.map(chunk => base32Alphabet[parseInt(chunk.padEnd(5, "0"), 2)])
+			.join("");
+	}
+
+	/**
+	 * Decodes an RFC 4648 base32 string, ignoring padding, spaces and case.
+	 * @param input - The base32 string.
+	 * @returns The decoded bytes.
+	 */
+	static base32Decode(input: string): Buffer {
+		const bits = input
+			.toUpperCase()
+			.replace(/[\s=]/g, "")
+			.split("")
+			.map(char => {
+				const index = base32Alphabet.indexOf(char);
+				if (index === -1) throw new Error("Invalid base32 character.");
+				return index.toString(2).padStart(5, "0");
+			})
+			.join("");
+
+		return Buffer.from((bits.match(/.{8}/g) || []).map(byte => parseInt(byte, 2)));
+	}
+
+	/**
+	 * Generates the HOTP code (RFC 4226) of a time step, which is the TOTP code (RFC 6238).
+	 * @param secret - The shared secret.
+	 * @param step - The time step, the number of periods elapsed since the Unix epoch.
+	 * @returns The zero padded code.
+	 */
+	static TOTPGenerator(secret: Buffer, step: number = AppHelpers.TOTPStep()): string {
+		const counter = Buffer.alloc(8);
+		counter.writeBigUInt64BE(BigInt(step));
+
+		const hmac = crypto.createHmac("sha1", secret).update(counter).digest();
+		const offset = hmac[hmac.length - 1] & 0x0f;
+		const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** totpDigits;
+
+		return code.toString().padStart(totpDigits, "0");
+	}
+
+	/**
+	 * Get the TOTP time step of a moment.
+	 * @param time - The time in milliseconds, defaults to now.
+	 * @returns The time step.
+	 */
+	static TOTPStep(time: number = Date.now()): number {
+		return Math.floor(time / 1000 / totpStep);
+	}
+
+	/**
+	 * Verifies a TOTP code, tolerating clock skew of a few time steps in both directions.
+	 * @param secret - The shared secret.
+	 * @param code - The code entered by the user.
+	 * @param window - The number of time steps accepted before and after the current one.
+	 * @returns The matching time step, or null if the code is invalid.
+	 */
+	static verifyTOTP(secret: Buffer, code: string, window: number = totpWindow): number | null {
+		const currentStep = AppHelpers.TOTPStep();
+
+		for (let step = currentStep - window; step <= currentStep + window; step++) {
+			if (AppHelpers.safeCompare(AppHelpers.TOTPGenerator(secret, step), code)) return step;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Encrypts a value with AES-256-GCM using a key derived from SECRET, unless another key is given.
+	 * @param value - The plain text value.
+	 * @param key - The 256-bit encryption key.
+	 * @returns The initialization vector, authentication tag and cipher text, base64url encoded.
+	 */
+	static encrypt(value: string | Buffer, key: Buffer = AppHelpers.encryptionKey()): string {
+		const iv = crypto.randomBytes(12);
+		const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+		const encrypted = Buffer.concat([cipher.update(Buffer.from(value)), cipher.final()]);
+
+		return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64url")).join(".");
+	}
+
+	/**
+	 * Decrypts a value produced by `encrypt`.
+	 * @param value - The encrypted value.
+	 * @param key - The 256-bit encryption key.
+	 * @returns The plain text value.
+	 */
+	static decrypt(value: string, key?: Buffer): string {
+		return AppHelpers.decryptBuffer(value, key).toString("utf8");
+	}
+
+	/**
+	 * Decrypts a value produced by `encrypt`, for binary values such as keys.
+	 * @param value - The encrypted value.
+	 * @param key - The 256-bit encryption key.
+	 * @returns The decrypted bytes.
+	 */
+	static decryptBuffer(value: string, key: Buffer = AppHelpers.encryptionKey()): Buffer {
+		const [iv, authTag, encrypted] = value.split(".").map(part => Buffer.from(part, "base64url"));
+		const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+		decipher.setAuthTag(authTag);
+
+		return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+	}
+
+	/**
+	 * Hashes a plain text password.
+	 * @param password - The plain text password.
+	 * @returns The bcrypt hash of the password.
+	 */
+	static async hashPassword(password: string): Promise<string> {
+		return bcrypt.hash(password, passwordSaltRounds);
+	}
+
+	/**
+	 * Compares a plain text password with a stored hash.
+	 * When no hash is given a dummy hash is compared so that the response time
+	 * does not reveal whether an account exists.
+	 * @param password - The plain text password.
+	 * @param hash - The stored bcrypt hash.
+	 * @returns True if the password matches the hash.
+	 */
+	static async verifyPassword(password: string, hash?: string | null): Promise<boolean> {
+		const matches = await bcrypt.compare(password, hash || dummyPasswordHash);
+		return !!hash && matches;
+	}
+
+	/**
+	 * Builds an absolute URL pointing to the client application.
+	 * The first entry of ORIGIN_URL is used as the client base URL.
+	 * @param path - The path on the client application.
+	 * @param query - Optional query string parameters.
+	 * @returns The absolute client URL.
+	 */
+	static clientUrl(path: string, query?: Record<string, string>): string {
+		const url = new URL(path, process.env.ORIGIN_URL.split(",")[0].trim());
+		Object.entries(query || {}).forEach(([key, value]) => url.searchParams.set(key, value));
+		return url.toString();
+	}
+
+	/**
+	 * Hashes a one-time token (OTP, reset token, etc.) for storage.
+	 * A keyed HMAC is used so that short codes cannot be brute forced from a database dump.
+	 * @param token - The plain text token.
+	 * @returns The hex encoded hash of the token.
+	 */
+	static hashToken(token: string): string {
+		return crypto.createHmac("sha256", process.env.SECRET).update(token).digest("hex");
+	}
+
+	/**
+	 * Compares two strings in constant time.
+	 * @param a - The first string.
+	 * @param b - The second string.
+	 * @returns True if both strings are equal.
+	 */
+	static safeCompare(a: string, b: string): boolean {
+		const bufferA = Buffer.from(a);
+		const bufferB = Buffer.from(b);
+		return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+	}
+
+	/**
+	 * Derives the 256-bit encryption key from SECRET.
+	 * @returns The encryption key.
+	 */
+	private static encryptionKey(): Buffer {
+		return crypto.createHash("sha256").update(process.env.SECRET).digest();
+	}
+
 	/**
 	 * Determines the appropriate SameSite and secure settings for cookies based on the provided URLs.
 	 * @returns The SameSite and secure settings for cookies.
@@ -0,0 +1,81 @@
+import crypto from "crypto";
+
+import AppHelpers from "@/utils/appHelpers";
+
+interface EncryptionKey {
+	id: string;
+	key: Buffer;
+}
+
+const prefix = "enc";
+
+/**
+ * Envelope encryption of stored credentials, such as SMTP passwords
+ *
+ * Every value is encrypted with its own random data key, which is in turn encrypted with a key
+ * derived from `CREDENTIAL_ENCRYPTION_KEYS`. Both use the AES-256-GCM of `AppHelpers.encrypt`.
+ * The keys are listed as `id:secret` pairs separated by commas, the first one encrypts and the
+ * others only decrypt, so that a key can be rotated by prepending a new one and re-encrypting.
+ * Encrypted values look like `enc:<key id>:<encrypted data key>:<encrypted value>`.
+ */
+export class CredentialCipher {
+	static encrypt(value: string): string {
+		const { id, key } = CredentialCipher.keys()[0];
+		const dataKey = crypto.randomBytes(32);
+
+		return [prefix, id, AppHelpers.encrypt(dataKey, key), AppHelpers.encrypt(value, dataKey)].join(
+			":"
+		);
+	}
+
+	static decrypt(value: string): string {
+		if (!CredentialCipher.isEncrypted(value)) throw new Error("The value is not encrypted");
+
+		const [, id, sealedDataKey, sealedValue] = value.split(":");
+
+		const encryptionKey = CredentialCipher.keys().find(key => key.id === id);
+		if (!encryptionKey) throw new Error(`Unknown credential encryption key '${id}'`);
+
+		const dataKey = AppHelpers.decryptBuffer(sealedDataKey, encryptionKey.key);
+
+		return AppHelpers.decrypt(sealedValue, dataKey);
+	}
+
+	static isEncrypted(value: string): boolean {
+		return value.startsWith(`${prefix}:`) && value.split(":").length === 4;
+	}
+
+	/**
+	 * Whether a value is encrypted with the current key, values that are not need re-encrypting
+	 *
+	 * @param value
+	 */
+	static isCurrent(value: string): boolean {
+		return (
+			CredentialCipher.isEncrypted(value) && value.split(":")[1] === CredentialCipher.keys()[0].id
+		);
+	}
+
+	private static keys(): EncryptionKey[] {
+		const keys = (process.env.CREDENTIAL_ENCRYPTION_KEYS ?? "")
+			.split(",")
+			.map(entry => entry.trim())
+			.filter(Boolean)
+			.map(entry => {
+				const separator = entry.indexOf(":");
+				const id = entry.slice(0, separator);
+				const secret = entry.slice(separator + 1);
+
+				return {
+					id,
+					key: Buffer.from(
+						crypto.hkdfSync("sha256", secret, Buffer.alloc(0), "credential-encryption", 32)
+					)
+				};
+			});
+
+		if (keys.length === 0) throw new Error("CREDENTIAL_ENCRYPTION_KEYS is not set");
+
+		return keys;
+	}
+}
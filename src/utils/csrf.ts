@@ -1,4 +1,5 @@
 import { doubleCsrf } from "csrf-csrf";
+import type { NextFunction, Request, Response } from "express";
 
 import { csrfTimeout } from "@/core/constants";
 import AppHelpers from "@/utils/appHelpers";
@@ -25,4 +26,26 @@ const { generateCsrfToken, validateRequest, doubleCsrfProtection, invalidCsrfTok
 		getCsrfTokenFromRequest: req => req.headers["x-csrf-token"]
 	});
 
-export { doubleCsrfProtection, generateCsrfToken, invalidCsrfTokenError, validateRequest };
+// Credentials sent in the Authorization header are never attached by browsers automatically
+const csrfExemptSchemes = ["Bearer", "ApiKey"];
+
+// Token endpoints used by non-browser clients, which do not hold a CSRF cookie
+const csrfExemptPaths = ["/auth/token", "/auth/token/refresh", "/auth/token/revoke"];
+
+const csrfProtection = (req: Request, res: Response, next: NextFunction) => {
+	const scheme = req.headers.authorization?.split(" ")[0];
+
+	if ((scheme && csrfExemptSchemes.includes(scheme)) || csrfExemptPaths.includes(req.path)) {
+		return next();
+	}
+
+	return doubleCsrfProtection(req, res, next);
+};
+
+export {
+	csrfProtection,
+	doubleCsrfProtection,
+	generateCsrfToken,
+	invalidCsrfTokenError,
+	validateRequest
+};
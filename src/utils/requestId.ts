@@ -0,0 +1,20 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+const requestIdHeader = "X-Request-Id";
+const validRequestId = /^[\w.:-]{1,128}$/;
+
+/**
+ * Tag every request with an id, echoed in the response so it can be correlated with audit events
+ * An id sent by a proxy or the client is kept when it looks safe to store
+ */
+const requestId = (req: Request, res: Response, next: NextFunction) => {
+	const incoming = req.get(requestIdHeader);
+
+	req.id = incoming && validRequestId.test(incoming) ? incoming : crypto.randomUUID();
+	res.setHeader(requestIdHeader, req.id);
+
+	next();
+};
+
+export default requestId;
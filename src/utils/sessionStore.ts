@@ -0,0 +1,94 @@
+import { and, eq, gt, lt, ne } from "drizzle-orm";
+import session from "express-session";
+
+import { sessionTimeout } from "@/core/constants";
+import db from "@/databases/drizzle/connection";
+import { sessions } from "@/models/drizzle/session.model";
+
+type Callback = (err?: any) => void;
+
+/**
+ * express-session store backed by the `sessions` table.
+ * The authenticated user id is kept in its own column so that every session
+ * belonging to a user can be looked up or revoked at once.
+ */
+export default class DrizzleSessionStore extends session.Store {
+	private pruneTimer: NodeJS.Timeout;
+
+	constructor(pruneInterval: number = 1000 * 60 * 15) {
+		super();
+
+		// Periodically remove expired sessions, without keeping the process alive
+		this.pruneTimer = setInterval(() => {
+			this.pruneExpired().catch(error => console.error("Failed to prune sessions:", error));
+		}, pruneInterval);
+		this.pruneTimer.unref();
+	}
+
+	private getExpiry(sess: session.SessionData): Date {
+		const expires = sess.cookie?.expires;
+		return expires ? new Date(expires) : new Date(Date.now() + sessionTimeout);
+	}
+
+	get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+		db.query.sessions
+			.findFirst({
+				where: and(eq(sessions.sid, sid), gt(sessions.expire, new Date()))
+			})
+			.then(row => callback(null, row ? (row.sess as session.SessionData) : null))
+			.catch(error => callback(error));
+	}
+
+	set(sid: string, sess: session.SessionData, callback?: Callback): void {
+		const values = {
+			sess,
+			userId: sess.passport?.user ?? null,
+			expire: this.getExpiry(sess),
+			ipAddress: sess.client?.ip ?? null,
+			userAgent: sess.client?.userAgent ?? null,
+			lastSeenAt: new Date()
+		};
+
+		db.insert(sessions)
+			.values({ sid, ...values })
+			.onConflictDoUpdate({ target: sessions.sid, set: values })
+			.then(() => callback?.())
+			.catch(error => callback?.(error));
+	}
+
+	touch(sid: string, sess: session.SessionData, callback?: Callback): void {
+		db.update(sessions)
+			.set({ expire: this.getExpiry(sess), lastSeenAt: new Date() })
+			.where(eq(sessions.sid, sid))
+			.then(() => callback?.())
+			.catch(error => callback?.(error));
+	}
+
+	destroy(sid: string, callback?: Callback): void {
+		db.delete(sessions)
+			.where(eq(sessions.sid, sid))
+			.then(() => callback?.())
+			.catch(error => callback?.(error));
+	}
+
+	/**
+	 * Destroy every session that belongs to a user.
+	 * @param userId - The user whose sessions should be removed.
+	 * @param exceptSid - Optionally keep this session (e.g. the current one) alive.
+	 * @returns The number of destroyed sessions.
+	 */
+	async destroyByUserId(userId: number, exceptSid?: string): Promise<number> {
+		const rows = await db
+			.delete(sessions)
+			.where(and(eq(sessions.userId, userId), exceptSid ? ne(sessions.sid, exceptSid) : undefined))
+			.returning({ sid: sessions.sid });
+
+		return rows.length;
+	}
+
+	async pruneExpired(): Promise<void> {
+		await db.delete(sessions).where(lt(sessions.expire, new Date()));
+	}
+}
+
+export const sessionStore = new DrizzleSessionStore();